@@ -1,6 +1,8 @@
-import { FedSimDatabase } from '../database/db.js';
 import { logger } from '../utils/logger.js';
-import type { TableName, DatabaseTable } from '../types/database.js';
+import { recordChanges } from '../database/journal.js';
+import { relations as defaultRelations, type Relation } from '../database/relations.js';
+import { moveToTrash } from '../database/trash.js';
+import type { TableName, DatabaseTable, TypedFedSimDatabase } from '../types/database.js';
 
 export interface ActionResult<T = any> {
   success: boolean;
@@ -20,7 +22,8 @@ export function createActionWrapper<T extends any[], R>(
     try {
       logger.info(`Starting ${operation}`, { args });
       
-      const result = await action(...args);
+      // Writes made by the action are journaled together so they can be undone as one change
+      const result = await recordChanges({ operation }, async () => action(...args));
       const duration = Date.now() - startTime;
       
       logger.success(`Completed ${operation}`, { 
@@ -55,9 +58,21 @@ export function createActionWrapper<T extends any[], R>(
   };
 }
 
+/**
+ * Call a tool for its data. Tool handlers report failures as `Error: ...`
+ * strings, which are turned back into exceptions here.
+ */
+export async function callTool(tools: Map<string, any>, name: string, args: any): Promise<any> {
+  const result = await tools.get(name)!.handler(args);
+  if (typeof result === 'string' && result.startsWith('Error: ')) {
+    throw new Error(result.slice('Error: '.length));
+  }
+  return result;
+}
+
 // Generic database operations
 export class DatabaseActions {
-  constructor(private db: FedSimDatabase) {}
+  constructor(private db: TypedFedSimDatabase, private relations: Relation[] = defaultRelations) {}
 
   // Helper method to safely access database tables
   private getTable<T>(tableName: string): DatabaseTable<T> {
@@ -86,10 +101,10 @@ export class DatabaseActions {
     return record;
   });
 
-  updateRecord = createActionWrapper('Update Record', async (table: string, id: number, updates: any) => {
+  updateRecord = createActionWrapper('Update Record', async (table: string, id: number, updates: any, expectedRevision?: string) => {
     const tableRef = this.getTable(table);
     
-    await tableRef.update(id, updates);
+    await tableRef.update(id, updates, { expectedRevision });
     const record = await tableRef.get(id);
     
     logger.info(`Updated ${table} record`, { id, updates, result: record });
@@ -100,10 +115,12 @@ export class DatabaseActions {
     const tableRef = this.getTable(table);
     
     const record = await tableRef.get(id);
-    await tableRef.delete(id);
+    // Deleted records go to the trash, from where restore_from_trash brings them back
+    const { report: { deleted, updated }, entry } = await moveToTrash(this.db, table, id, this.relations);
+    const cascaded = deleted.filter(ref => !(ref.table === table && ref.id === id));
     
-    logger.info(`Deleted ${table} record`, { id, deletedRecord: record });
-    return { id, deleted: true };
+    logger.info(`Deleted ${table} record`, { id, deletedRecord: record, cascaded, nullified: updated, trashId: entry?.id });
+    return { id, deleted: true, cascaded, nullified: updated, trashId: entry?.id ?? null };
   });
 
   fetchById = createActionWrapper('Fetch by ID', async (table: string, id: number) => {
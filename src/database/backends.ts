@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TypedFedSimDatabase } from '../types/database.js';
+
+export interface BackendOptions {
+  dataDir?: string;
+  // Tells apart databases that share a process, such as in-memory PouchDB ones
+  name?: string;
+}
+
+export interface StorageBackend {
+  name: string;
+  description: string;
+  // Backends that keep their data on disk refuse to start without a directory
+  requiresDataDir: boolean;
+  create(options: BackendOptions): Promise<TypedFedSimDatabase>;
+}
+
+const backends = new Map<string, StorageBackend>();
+
+export function registerBackend(backend: StorageBackend): void {
+  backends.set(backend.name, backend);
+}
+
+export function getBackend(name: string): StorageBackend | undefined {
+  return backends.get(name);
+}
+
+export function listBackends(): StorageBackend[] {
+  return Array.from(backends.values());
+}
+
+// Without an explicit choice, a data directory means file storage
+export function resolveBackendName(requested: string | undefined, dataDir?: string): string {
+  return requested ?? (dataDir ? 'file' : 'memory');
+}
+
+export async function createDatabase(name: string, options: BackendOptions = {}): Promise<TypedFedSimDatabase> {
+  const backend = getBackend(name);
+  if (!backend) {
+    throw new Error(`Unknown storage backend '${name}'. Available backends: ${Array.from(backends.keys()).join(', ')}`);
+  }
+  if (backend.requiresDataDir && !options.dataDir) {
+    throw new Error(`The '${name}' backend needs a data directory (--data-dir or FEDSIM_DATA_DIR)`);
+  }
+  return backend.create(options);
+}
+
+// PouchDB is loaded on demand so the default backends work without it installed
+async function loadPouchDB() {
+  try {
+    return await import('./db.js');
+  } catch (error) {
+    throw new Error(`The PouchDB backends need the pouchdb, pouchdb-find and pouchdb-adapter-memory packages: ${(error as Error).message}`);
+  }
+}
+
+registerBackend({
+  name: 'memory',
+  description: 'In-memory tables, lost when the server stops',
+  requiresDataDir: false,
+  async create() {
+    const { SimpleDatabase } = await import('./simple-db.js');
+    return new SimpleDatabase();
+  },
+});
+
+registerBackend({
+  name: 'file',
+  description: 'In-memory tables written through to one JSON file per table',
+  requiresDataDir: true,
+  async create({ dataDir }) {
+    const { SimpleDatabase } = await import('./simple-db.js');
+    const db = new SimpleDatabase();
+    await db.open({ dataDir });
+    return db;
+  },
+});
+
+registerBackend({
+  name: 'pouchdb-memory',
+  description: 'PouchDB with the in-memory adapter',
+  requiresDataDir: false,
+  async create({ name }) {
+    const { FedSimDatabase } = await loadPouchDB();
+    const db = new FedSimDatabase({ name });
+    await db.open();
+    return db;
+  },
+});
+
+registerBackend({
+  name: 'pouchdb-leveldb',
+  description: 'PouchDB stored in LevelDB on disk',
+  requiresDataDir: true,
+  async create({ dataDir }) {
+    const { FedSimDatabase } = await loadPouchDB();
+    await fs.mkdir(dataDir!, { recursive: true });
+    const db = new FedSimDatabase({ dataDir });
+    await db.open();
+    return db;
+  },
+});
+
+registerBackend({
+  name: 'sqlite',
+  description: 'SQLite database file with one table per schema group',
+  requiresDataDir: true,
+  async create({ dataDir }) {
+    let sqlite: typeof import('./sqlite-db.js');
+    try {
+      sqlite = await import('./sqlite-db.js');
+    } catch (error) {
+      throw new Error(`The sqlite backend needs the better-sqlite3 package: ${(error as Error).message}`);
+    }
+    await fs.mkdir(dataDir!, { recursive: true });
+    return new sqlite.SQLiteDatabase(path.join(dataDir!, 'fedsim.sqlite'));
+  },
+});
@@ -0,0 +1,163 @@
+import type { Collection, WhereClause } from '../types/database.js';
+import { collate, type MangoSelector } from './mango.js';
+
+// Backends only have to fetch the rows of one table that match a selector
+export type CollectionSource<T> = (selector: MangoSelector) => Promise<T[]>;
+
+interface CollectionState<T> {
+  selector: MangoSelector;
+  filters: Array<(item: T) => boolean>;
+  orderBy: string;
+  reversed: boolean;
+  offset: number;
+  limit?: number;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class TableCollection<T extends { id?: number }> implements Collection<T> {
+  private state: CollectionState<T>;
+
+  constructor(private source: CollectionSource<T>, state: Partial<CollectionState<T>> = {}) {
+    this.state = { selector: {}, filters: [], orderBy: 'id', reversed: false, offset: 0, ...state };
+  }
+
+  private with(changes: Partial<CollectionState<T>>): TableCollection<T> {
+    return new TableCollection(this.source, { ...this.state, ...changes });
+  }
+
+  filter(predicate: (item: T) => boolean): TableCollection<T> {
+    return this.with({ filters: [...this.state.filters, predicate] });
+  }
+
+  and(predicate: (item: T) => boolean): TableCollection<T> {
+    return this.filter(predicate);
+  }
+
+  limit(count: number): TableCollection<T> {
+    return this.with({ limit: count });
+  }
+
+  offset(count: number): TableCollection<T> {
+    return this.with({ offset: this.state.offset + count });
+  }
+
+  reverse(): TableCollection<T> {
+    return this.with({ reversed: !this.state.reversed });
+  }
+
+  async toArray(): Promise<T[]> {
+    const { selector, filters, orderBy, reversed, offset, limit } = this.state;
+    const rows = (await this.source(selector)).filter(row => filters.every(predicate => predicate(row)));
+
+    // Primary key order first so ties on `orderBy` stay stable across backends
+    rows.sort((a, b) => collate(a.id, b.id));
+    if (orderBy !== 'id') {
+      rows.sort((a, b) => collate((a as any)[orderBy], (b as any)[orderBy]));
+    }
+    if (reversed) rows.reverse();
+
+    return rows.slice(offset, limit === undefined ? undefined : offset + limit);
+  }
+
+  // Unlike orderBy, sorts after offset/limit have been applied (as Dexie does)
+  async sortBy(field: string): Promise<T[]> {
+    const rows = await this.with({ reversed: false }).toArray();
+    rows.sort((a, b) => collate((a as any)[field], (b as any)[field]));
+    return this.state.reversed ? rows.reverse() : rows;
+  }
+
+  async first(): Promise<T | undefined> {
+    return (await this.limit(1).toArray())[0];
+  }
+
+  async last(): Promise<T | undefined> {
+    return (await this.reverse().limit(1).toArray())[0];
+  }
+
+  async count(): Promise<number> {
+    return (await this.toArray()).length;
+  }
+
+  async each(callback: (item: T) => void): Promise<void> {
+    for (const row of await this.toArray()) {
+      callback(row);
+    }
+  }
+
+  async primaryKeys(): Promise<number[]> {
+    return (await this.toArray()).map(row => row.id!);
+  }
+
+  then<TResult1 = T[], TResult2 = never>(
+    onfulfilled?: ((value: T[]) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.toArray().then(onfulfilled, onrejected);
+  }
+}
+
+export function createWhereClause<T extends { id?: number }>(source: CollectionSource<T>, field: string): WhereClause<T> {
+  // Conditions that Mango can express are pushed down to the backend
+  const matching = (condition: any) => new TableCollection(source, { selector: { [field]: condition }, orderBy: field });
+  const testing = (predicate: (value: any) => boolean) =>
+    new TableCollection(source, { orderBy: field }).filter(row => predicate((row as any)[field]));
+
+  return {
+    equals: value => matching({ $eq: value }),
+    notEqual: value => matching({ $nin: [value] }),
+    anyOf: values => matching({ $in: values }),
+    noneOf: values => matching({ $nin: values }),
+    above: value => matching({ $gt: value }),
+    aboveOrEqual: value => matching({ $gte: value }),
+    below: value => matching({ $lt: value }),
+    belowOrEqual: value => matching({ $lte: value }),
+    between: (lower, upper, includeLower = true, includeUpper = false) =>
+      matching({ [includeLower ? '$gte' : '$gt']: lower, [includeUpper ? '$lte' : '$lt']: upper }),
+    startsWith: prefix => matching({ $regex: `^${escapeRegex(prefix)}` }),
+    startsWithIgnoreCase: prefix =>
+      testing(value => typeof value === 'string' && value.toLowerCase().startsWith(prefix.toLowerCase())),
+    equalsIgnoreCase: text =>
+      testing(value => typeof value === 'string' && value.toLowerCase() === text.toLowerCase()),
+    contains: value => matching({ $elemMatch: { $eq: value } }),
+    like: text => testing(value => value != null && String(value).toLowerCase().includes(text.toLowerCase())),
+  };
+}
+
+/**
+ * Query methods every table gets for free. A backend only implements
+ * `select`, returning the table's rows that match a Mango selector.
+ */
+export abstract class QueryableTable<T extends { id?: number }> {
+  protected abstract select(selector: MangoSelector): Promise<T[]>;
+
+  private readonly source: CollectionSource<T> = selector => this.select(selector);
+
+  where(field: string): WhereClause<T> {
+    return createWhereClause(this.source, field);
+  }
+
+  toCollection(): TableCollection<T> {
+    return new TableCollection(this.source);
+  }
+
+  filter(predicate: (item: T) => boolean): TableCollection<T> {
+    return this.toCollection().filter(predicate);
+  }
+
+  orderBy(field: string): TableCollection<T> {
+    return new TableCollection(this.source, { orderBy: field });
+  }
+
+  limit(count: number): TableCollection<T> {
+    return this.toCollection().limit(count);
+  }
+
+  offset(count: number): TableCollection<T> {
+    return this.toCollection().offset(count);
+  }
+
+  reverse(): TableCollection<T> {
+    return this.toCollection().reverse();
+  }
+}
@@ -1,12 +1,21 @@
 import PouchDB from 'pouchdb';
 import PouchDBFind from 'pouchdb-find';
 import PouchDBMemoryAdapter from 'pouchdb-adapter-memory';
-import type { PouchDBSelector, PouchDBFindResult, PouchDBFindOptions, DatabaseError } from '../types/database.js';
+import path from 'path';
+import type { PouchDBSelector, PouchDBFindResult, PouchDBFindOptions, DatabaseError, DatabaseTable, TypedFedSimDatabase } from '../types/database.js';
+import { assertValidRecord } from './validation.js';
+import { assertRevision, type UpdateOptions } from './revisions.js';
+import { runTransaction } from './transactions.js';
+import { RevisionConflictError } from './errors.js';
+import { normalizeSelector, type MangoSelector } from './mango.js';
+import { QueryableTable } from './collection.js';
+import { reviveJson } from '../utils/json.js';
 PouchDB.plugin(PouchDBFind);
 PouchDB.plugin(PouchDBMemoryAdapter);
 
 export interface Wrestler {
   _id?: string;
+  _rev?: string;
   id?: number;
   type: 'Wrestler';
   name: string;
@@ -53,6 +62,7 @@ export interface Wrestler {
 
 export interface Brand {
   _id?: string;
+  _rev?: string;
   id?: number;
   type: 'Brand';
   name: string;
@@ -68,6 +78,7 @@ export interface Brand {
 
 export interface Company {
   _id?: string;
+  _rev?: string;
   id?: number;
   type: 'Company';
   name: string;
@@ -77,6 +88,7 @@ export interface Company {
 
 export interface Production {
   _id?: string;
+  _rev?: string;
   id?: number;
   type: 'Production';
   name: string;
@@ -99,11 +111,58 @@ export interface Production {
   complete: boolean;
 }
 
-class PouchDBTable<T extends { _id?: string; id?: number; type: string }> {
-  constructor(private db: PouchDB.Database, private docType: string) {}
+class PouchDBTable<T extends { _id?: string; _rev?: string; id?: number; type: string }> extends QueryableTable<T> implements DatabaseTable<T> {
+  private sequenceLock: Promise<unknown> = Promise.resolve();
+
+  constructor(private db: PouchDB.Database, private docType: string) {
+    super();
+  }
+
+  private async highestId(): Promise<number> {
+    const docs = await this.toArray();
+    return docs.reduce((highest, doc) => Math.max(highest, doc.id ?? 0), 0);
+  }
+
+  /**
+   * Dexie-style `++id` counter kept in a local (non-replicated) document.
+   * Updates are queued so concurrent adds never read the same value.
+   * Returns the counter value before `update` is applied.
+   */
+  private updateSequence(update: (next: number) => number | Promise<number>): Promise<number> {
+    const run = this.sequenceLock.then(async () => {
+      const key = `_local/sequence:${this.docType.toLowerCase()}`;
+      let doc: any;
+      try {
+        doc = await this.db.get(key);
+      } catch (e) {
+        const error = e as DatabaseError;
+        if (error.status !== 404) throw e;
+        doc = { _id: key, next: (await this.highestId()) + 1 };
+      }
+      const current = doc.next;
+      doc.next = await update(current);
+      if (doc.next !== current || !doc._rev) {
+        await this.db.put(doc);
+      }
+      return current as number;
+    });
+    this.sequenceLock = run.catch(() => {});
+    return run;
+  }
+
+  // Next id that add() will hand out
+  async getSequence(): Promise<number> {
+    return this.updateSequence(next => next);
+  }
+
+  // Restore a saved counter, never dropping below an id that is still in use
+  async setSequence(next: number): Promise<void> {
+    await this.updateSequence(async () => Math.max(next, (await this.highestId()) + 1));
+  }
 
   async add(item: Omit<T, '_id' | 'id' | 'type'>): Promise<number> {
-    const id = Date.now() + Math.floor(Math.random() * 1000);
+    assertValidRecord(this.docType, item);
+    const id = await this.updateSequence(next => next + 1);
     const doc = {
       ...item,
       _id: `${this.docType.toLowerCase()}:${id}`,
@@ -115,10 +174,27 @@ class PouchDBTable<T extends { _id?: string; id?: number; type: string }> {
     return id;
   }
 
+  // Insert or replace a record, keeping the id it already carries
+  async put(item: Omit<T, '_id' | 'type'> & { id: number }): Promise<number> {
+    assertValidRecord(this.docType, item);
+    const _id = `${this.docType.toLowerCase()}:${item.id}`;
+    const existing = await this.get(item.id);
+    const doc = {
+      ...item,
+      _id,
+      _rev: (existing as any)?._rev,
+      type: this.docType,
+    };
+
+    await this.db.put(doc);
+    await this.updateSequence(next => Math.max(next, item.id + 1));
+    return item.id;
+  }
+
   async get(id: number): Promise<T | undefined> {
     try {
       const doc = await this.db.get(`${this.docType.toLowerCase()}:${id}`);
-      return doc as unknown as T;
+      return reviveJson<T>(doc);
     } catch (e) {
       const error = e as DatabaseError;
       if (error.status === 404) return undefined;
@@ -126,130 +202,56 @@ class PouchDBTable<T extends { _id?: string; id?: number; type: string }> {
     }
   }
 
-  async update(id: number, updates: Partial<T>): Promise<void> {
-    const doc = await this.db.get(`${this.docType.toLowerCase()}:${id}`);
-    const updated = { ...doc, ...updates };
-    await this.db.put(updated);
+  // The put carries the revision that was read, so PouchDB rejects it if another write got in first
+  async update(id: number, updates: Partial<T>, options?: UpdateOptions): Promise<void> {
+    assertValidRecord(this.docType, updates);
+    const doc = await this.get(id);
+    assertRevision(this.docType, id, doc, options);
+    try {
+      await this.db.put({ ...doc, ...updates, _rev: doc!._rev } as any);
+    } catch (e) {
+      const error = e as DatabaseError;
+      if (error.status !== 409) throw e;
+      const current = await this.get(id);
+      throw new RevisionConflictError(this.docType, id, doc!._rev!, current?._rev);
+    }
   }
 
+  // Like Dexie, deleting a missing record is a no-op
   async delete(id: number): Promise<void> {
-    const doc = await this.db.get(`${this.docType.toLowerCase()}:${id}`);
-    await this.db.remove(doc);
+    const doc = await this.get(id);
+    if (!doc) return;
+    await this.db.remove(doc as any);
   }
 
   async toArray(): Promise<T[]> {
     const result = await this.db.find({ selector: { type: this.docType } });
-    return result.docs as unknown as T[];
+    return reviveJson<T[]>(result.docs);
   }
 
-  where(field: keyof T) {
-    return {
-      equals: async (value: any): Promise<T[]> => {
-        const result = await this.db.find({ 
-          selector: { 
-            type: this.docType,
-            [field as string]: value 
-          } 
-        });
-        return result.docs as unknown as T[];
-      }
-    };
+  async count(): Promise<number> {
+    return (await this.toArray()).length;
   }
 
-  filter(predicate: (item: T) => boolean) {
-    return {
-      toArray: async (): Promise<T[]> => {
-        const all = await this.toArray();
-        return all.filter(predicate);
-      },
-      reverse: () => ({
-        toArray: async (): Promise<T[]> => {
-          const all = await this.toArray();
-          return all.filter(predicate).reverse();
-        }
-      })
-    };
+  // Removes every document but keeps the id counter, as Dexie's clear() does
+  async clear(): Promise<void> {
+    const docs = await this.toArray();
+    await this.db.bulkDocs(docs.map(doc => ({ ...doc, _deleted: true })) as any);
   }
 
-  orderBy(field: keyof T) {
-    return {
-      toArray: async (): Promise<T[]> => {
-        const all = await this.toArray();
-        return all.sort((a, b) => {
-          const aVal = a[field];
-          const bVal = b[field];
-          if (aVal < bVal) return -1;
-          if (aVal > bVal) return 1;
-          return 0;
-        });
-      },
-      limit: (count: number) => ({
-        toArray: async (): Promise<T[]> => {
-          const all = await this.toArray();
-          return all.sort((a, b) => {
-            const aVal = a[field];
-            const bVal = b[field];
-            if (aVal < bVal) return -1;
-            if (aVal > bVal) return 1;
-            return 0;
-          }).slice(0, count);
-        }
-      }),
-      reverse: () => ({
-        toArray: async (): Promise<T[]> => {
-          const all = await this.toArray();
-          return all.sort((a, b) => {
-            const aVal = a[field];
-            const bVal = b[field];
-            if (aVal < bVal) return 1;
-            if (aVal > bVal) return -1;
-            return 0;
-          });
-        },
-        limit: (count: number) => ({
-          toArray: async (): Promise<T[]> => {
-            const all = await this.toArray();
-            return all.sort((a, b) => {
-              const aVal = a[field];
-              const bVal = b[field];
-              if (aVal < bVal) return 1;
-              if (aVal > bVal) return -1;
-              return 0;
-            }).slice(0, count);
-          }
-        })
-      })
-    };
+  protected async select(selector: MangoSelector): Promise<T[]> {
+    const result = await this.db.find({ selector: normalizeSelector({ ...selector, type: this.docType }) });
+    return reviveJson<T[]>(result.docs);
   }
+}
 
-  toCollection() {
-    return {
-      toArray: async (): Promise<T[]> => {
-        return await this.toArray();
-      },
-      limit: (count: number) => ({
-        toArray: async (): Promise<T[]> => {
-          const all = await this.toArray();
-          return all.slice(0, count);
-        }
-      }),
-      filter: (predicate: (item: T) => boolean) => ({
-        toArray: async (): Promise<T[]> => {
-          const all = await this.toArray();
-          return all.filter(predicate);
-        },
-        limit: (count: number) => ({
-          toArray: async (): Promise<T[]> => {
-            const all = await this.toArray();
-            return all.filter(predicate).slice(0, count);
-          }
-        })
-      })
-    };
-  }
+export interface FedSimDatabaseOptions {
+  name?: string;
+  // Store the database in LevelDB under this directory instead of in memory
+  dataDir?: string;
 }
 
-export class FedSimDatabase {
+export class FedSimDatabase implements TypedFedSimDatabase {
   private db: PouchDB.Database;
   public Wrestler: PouchDBTable<Wrestler>;
   public Brand: PouchDBTable<Brand>;
@@ -272,9 +274,13 @@ export class FedSimDatabase {
   public Bet: PouchDBTable<any>;
   public Favourite: PouchDBTable<any>;
   public Notification: PouchDBTable<any>;
+  public Trash: PouchDBTable<any>;
 
-  constructor() {
-    this.db = new PouchDB('fedsim-database', { adapter: 'memory' });
+  constructor(options: FedSimDatabaseOptions = {}) {
+    const name = options.name ?? 'fedsim-database';
+    this.db = options.dataDir
+      ? new PouchDB(path.join(options.dataDir, name), { adapter: 'leveldb' })
+      : new PouchDB(name, { adapter: 'memory' });
     this.Wrestler = new PouchDBTable(this.db, 'Wrestler');
     this.Brand = new PouchDBTable(this.db, 'Brand');
     this.Company = new PouchDBTable(this.db, 'Company');
@@ -296,6 +302,7 @@ export class FedSimDatabase {
     this.Bet = new PouchDBTable(this.db, 'Bet');
     this.Favourite = new PouchDBTable(this.db, 'Favourite');
     this.Notification = new PouchDBTable(this.db, 'Notification');
+    this.Trash = new PouchDBTable(this.db, 'Trash');
   }
 
   async open(): Promise<void> {
@@ -305,9 +312,10 @@ export class FedSimDatabase {
 
   async find<T>(options: PouchDBFindOptions): Promise<PouchDBFindResult<T>> {
     try {
-      const result = await this.db.find(options);
+      const result = await this.db.find({ ...options, selector: normalizeSelector(options.selector) });
       return {
-        docs: result.docs as T[],
+        // PouchDB stores dates as ISO strings; hand them back as Date objects like the other backends
+        docs: reviveJson<T[]>(result.docs),
         bookmark: (result as any).bookmark,
         warning: (result as any).warning
       };
@@ -317,6 +325,15 @@ export class FedSimDatabase {
     }
   }
 
+  // All-or-nothing writes across tables, see transactions.ts
+  transaction<R>(fn: () => Promise<R>): Promise<R> {
+    return runTransaction(this, fn);
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+
   async delete(): Promise<void> {
     await this.db.destroy();
   }
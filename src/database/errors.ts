@@ -0,0 +1,61 @@
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when a write does not satisfy the table schema or domain rules.
+ * `errors` lists every offending field so callers can report them all at once.
+ */
+export class ValidationError extends Error {
+  constructor(public readonly table: string, public readonly errors: FieldError[]) {
+    super(`Invalid ${table}: ${errors.map(error => `${error.field} ${error.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when a delete is blocked by a `restrict` relation.
+ */
+export class ReferentialIntegrityError extends Error {
+  constructor(
+    public readonly table: string,
+    public readonly id: number,
+    public readonly referencedBy: Array<{ table: string; id: number; field: string }>
+  ) {
+    super(
+      `Cannot delete ${table} ${id}: still referenced by ` +
+      referencedBy.map(ref => `${ref.table} ${ref.id} (${ref.field})`).join(', ')
+    );
+    this.name = 'ReferentialIntegrityError';
+  }
+}
+
+/**
+ * Thrown when a write targets a record that does not exist.
+ */
+export class RecordNotFoundError extends Error {
+  constructor(public readonly table: string, public readonly id: number) {
+    super(`${table} with ID ${id} not found`);
+    this.name = 'RecordNotFoundError';
+  }
+}
+
+/**
+ * Thrown when an update names the revision it was based on and the record has
+ * been written since, so applying it would overwrite someone else's change.
+ */
+export class RevisionConflictError extends Error {
+  constructor(
+    public readonly table: string,
+    public readonly id: number,
+    public readonly expectedRevision: string,
+    public readonly currentRevision: string | undefined
+  ) {
+    super(
+      `${table} ${id} has changed since revision ${expectedRevision} ` +
+      `(current revision ${currentRevision ?? 'unknown'}); fetch it again and retry`
+    );
+    this.name = 'RevisionConflictError';
+  }
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { reviveDates } from '../utils/json.js';
+
+export interface TableFile {
+  nextId?: number;
+  docs: any[];
+}
+
+/**
+ * File-backed storage for SimpleDatabase tables.
+ * Each table lives in `<dataDir>/<Table>.json` and is rewritten atomically
+ * (temp file + fsync + rename) so a crash never leaves a half-written table.
+ */
+export class FileStore {
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(public readonly dataDir: string) {}
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+  }
+
+  private tablePath(table: string): string {
+    return path.join(this.dataDir, `${table}.json`);
+  }
+
+  async load(table: string): Promise<TableFile> {
+    try {
+      const raw = await fs.readFile(this.tablePath(table), 'utf8');
+      const parsed = JSON.parse(raw, reviveDates);
+      return {
+        nextId: typeof parsed.nextId === 'number' ? parsed.nextId : undefined,
+        docs: Array.isArray(parsed.docs) ? parsed.docs : [],
+      };
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { docs: [] };
+      }
+      throw new Error(`Failed to load table ${table} from ${this.dataDir}: ${(e as Error).message}`);
+    }
+  }
+
+  save(table: string, contents: TableFile): Promise<void> {
+    // Serialize writes per table so an older snapshot can never overwrite a newer one
+    const previous = this.writes.get(table) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(() => this.writeAtomic(table, contents));
+    this.writes.set(table, next);
+    return next;
+  }
+
+  // Resolves once every queued write has reached disk
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.writes.values(), write => write.catch(() => {})));
+  }
+
+  private async writeAtomic(table: string, contents: TableFile): Promise<void> {
+    const target = this.tablePath(table);
+    const temp = `${target}.${process.pid}.tmp`;
+    const handle = await fs.open(temp, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(contents));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(temp, target);
+  }
+}
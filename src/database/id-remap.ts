@@ -0,0 +1,42 @@
+import { relations } from './relations.js';
+
+// Per table, the fields that hold ids of records in other tables and the table they point at
+export const idReferenceFields: Record<string, Record<string, string>> = {};
+for (const { table, field, references } of relations) {
+  (idReferenceFields[table] ??= {})[field] = references;
+}
+
+export type IdMaps = Record<string, Map<number, number>>;
+
+/**
+ * Rewrite the reference fields of a record using old -> new id maps.
+ * References to tables that were not remapped, or to ids outside the map,
+ * are left untouched and counted as unresolved.
+ */
+export function remapReferences(table: string, record: Record<string, any>, idMaps: IdMaps): {
+  updates: Record<string, any>;
+  unresolved: number;
+} {
+  const updates: Record<string, any> = {};
+  let unresolved = 0;
+
+  const remapId = (target: string, id: any) => {
+    const mapped = idMaps[target]?.get(id);
+    if (mapped === undefined) {
+      unresolved++;
+      return id;
+    }
+    return mapped;
+  };
+
+  for (const [field, target] of Object.entries(idReferenceFields[table] ?? {})) {
+    const value = record[field];
+    if (!idMaps[target] || value === undefined || value === null) continue;
+
+    updates[field] = Array.isArray(value)
+      ? value.map(id => remapId(target, id))
+      : remapId(target, value);
+  }
+
+  return { updates, unresolved };
+}
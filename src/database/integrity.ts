@@ -0,0 +1,197 @@
+import { relations, deleteWithRelations, type Relation } from './relations.js';
+import { statFields, STAT_MIN, STAT_MAX } from './validation.js';
+
+export type Severity = 'error' | 'warning';
+
+export type IntegrityCheck =
+  | 'dangling-reference'
+  | 'stat-out-of-range'
+  | 'orphan-segment'
+  | 'negative-balance'
+  | 'empty-completed-production';
+
+export interface Finding {
+  check: IntegrityCheck;
+  severity: Severity;
+  table: string;
+  id: number;
+  field?: string;
+  message: string;
+  // What repair mode does about it
+  fix: string;
+  // Ids a dangling reference points at that no longer exist
+  missingIds?: number[];
+}
+
+export interface RepairResult {
+  finding: Finding;
+  repaired: boolean;
+  error?: string;
+}
+
+const SEVERITY: Record<IntegrityCheck, Severity> = {
+  'dangling-reference': 'error',
+  'stat-out-of-range': 'error',
+  'orphan-segment': 'warning',
+  'negative-balance': 'warning',
+  'empty-completed-production': 'warning',
+};
+
+export const integrityChecks = Object.keys(SEVERITY) as IntegrityCheck[];
+
+const idsIn = (value: any): any[] =>
+  Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+
+const clampStat = (value: number) => Math.max(STAT_MIN, Math.min(STAT_MAX, value));
+
+/**
+ * Scan every table for records that break the relations in relations.ts or the
+ * domain rules: references to deleted records, segments no production books,
+ * out-of-range wrestler stats, brands in debt and completed shows with no segments.
+ */
+export async function checkIntegrity(db: any, relationList: Relation[] = relations): Promise<Finding[]> {
+  const rowsCache = new Map<string, any[]>();
+  const rowsOf = async (table: string): Promise<any[]> => {
+    if (!db[table]) return [];
+    if (!rowsCache.has(table)) {
+      rowsCache.set(table, (await db[table].toArray()) ?? []);
+    }
+    return rowsCache.get(table)!;
+  };
+
+  const findings: Finding[] = [];
+  const report = (finding: Omit<Finding, 'severity'>) => findings.push({ ...finding, severity: SEVERITY[finding.check] });
+
+  for (const relation of relationList) {
+    if (!db[relation.table] || !db[relation.references]) continue;
+    const existing = new Set((await rowsOf(relation.references)).map(row => row.id));
+
+    for (const row of await rowsOf(relation.table)) {
+      const missingIds = idsIn(row[relation.field]).filter(id => !existing.has(id));
+      if (missingIds.length === 0) continue;
+
+      report({
+        check: 'dangling-reference',
+        table: relation.table,
+        id: row.id,
+        field: relation.field,
+        message: `${relation.field} points at missing ${relation.references} ${missingIds.join(', ')}`,
+        fix: relation.onDelete === 'cascade'
+          ? `delete ${relation.table} ${row.id}`
+          : Array.isArray(row[relation.field])
+            ? `remove ${missingIds.join(', ')} from ${relation.field}`
+            : `set ${relation.field} to null`,
+        missingIds,
+      });
+    }
+  }
+
+  const booked = new Set((await rowsOf('Production')).flatMap(production => idsIn(production.segmentIds)));
+  for (const segment of await rowsOf('Segment')) {
+    if (booked.has(segment.id)) continue;
+    report({
+      check: 'orphan-segment',
+      table: 'Segment',
+      id: segment.id,
+      message: `Segment "${segment.name ?? segment.id}" is not part of any production`,
+      fix: `delete Segment ${segment.id} and its appearances`,
+    });
+  }
+
+  for (const wrestler of await rowsOf('Wrestler')) {
+    for (const field of statFields) {
+      const value = wrestler[field];
+      if (typeof value !== 'number' || (value >= STAT_MIN && value <= STAT_MAX)) continue;
+      report({
+        check: 'stat-out-of-range',
+        table: 'Wrestler',
+        id: wrestler.id,
+        field,
+        message: `${wrestler.name ?? `Wrestler ${wrestler.id}`} has ${field} ${value} (expected ${STAT_MIN}-${STAT_MAX})`,
+        fix: `set ${field} to ${clampStat(value)}`,
+      });
+    }
+  }
+
+  for (const brand of await rowsOf('Brand')) {
+    if (typeof brand.balance !== 'number' || brand.balance >= 0) continue;
+    report({
+      check: 'negative-balance',
+      table: 'Brand',
+      id: brand.id,
+      field: 'balance',
+      message: `${brand.name ?? `Brand ${brand.id}`} has a balance of ${brand.balance}`,
+      fix: 'set balance to 0',
+    });
+  }
+
+  const segmentIds = new Set((await rowsOf('Segment')).map(segment => segment.id));
+  for (const production of await rowsOf('Production')) {
+    if (!production.complete || idsIn(production.segmentIds).some(id => segmentIds.has(id))) continue;
+    report({
+      check: 'empty-completed-production',
+      table: 'Production',
+      id: production.id,
+      field: 'complete',
+      message: `${production.name ?? `Production ${production.id}`} is complete but has no segments`,
+      fix: 'set complete to false',
+    });
+  }
+
+  return findings;
+}
+
+async function repairFinding(db: any, finding: Finding, relationList: Relation[]): Promise<boolean> {
+  const tableRef = db[finding.table];
+  const record = await tableRef.get(finding.id);
+  // Already gone, e.g. deleted while repairing an earlier finding
+  if (!record) return false;
+
+  switch (finding.check) {
+    case 'dangling-reference': {
+      const relation = relationList.find(r => r.table === finding.table && r.field === finding.field);
+      if (relation?.onDelete === 'cascade') {
+        await deleteWithRelations(db, finding.table, finding.id, relationList);
+        return true;
+      }
+      const value = record[finding.field!];
+      const missing = new Set(finding.missingIds);
+      await tableRef.update(finding.id, {
+        [finding.field!]: Array.isArray(value) ? value.filter(id => !missing.has(id)) : null,
+      });
+      return true;
+    }
+    case 'orphan-segment':
+      await deleteWithRelations(db, finding.table, finding.id, relationList);
+      return true;
+    case 'stat-out-of-range':
+      await tableRef.update(finding.id, { [finding.field!]: clampStat(record[finding.field!]) });
+      return true;
+    case 'negative-balance':
+      await tableRef.update(finding.id, { balance: 0 });
+      return true;
+    case 'empty-completed-production':
+      await tableRef.update(finding.id, { complete: false });
+      return true;
+  }
+}
+
+/**
+ * Apply each finding's fix in order. Deletes go through deleteWithRelations,
+ * so a repair never leaves new dangling ids behind.
+ */
+export async function repairIntegrity(
+  db: any,
+  findings: Finding[],
+  relationList: Relation[] = relations
+): Promise<RepairResult[]> {
+  const results: RepairResult[] = [];
+  for (const finding of findings) {
+    try {
+      results.push({ finding, repaired: await repairFinding(db, finding, relationList) });
+    } catch (error) {
+      results.push({ finding, repaired: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return results;
+}
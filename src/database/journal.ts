@@ -0,0 +1,345 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DatabaseTable, TypedFedSimDatabase } from '../types/database.js';
+import { allTableNames } from './schema.js';
+import { reviveDates } from '../utils/json.js';
+import { logger } from '../utils/logger.js';
+
+type Snapshot = Record<string, any>;
+
+// Records kept in memory across all change sets before the oldest sets are dropped
+export const MAX_JOURNAL_ENTRIES = 10_000;
+
+export interface JournalEntry {
+  table: string;
+  id: number;
+  // null when the record did not exist before (add) or after (delete)
+  before: Snapshot | null;
+  after: Snapshot | null;
+}
+
+export interface ChangeSet {
+  id: number;
+  tool: string | null;
+  operation: string | null;
+  timestamp: Date;
+  changes: JournalEntry[];
+  undone: boolean;
+}
+
+// Called with the entries of every change set that is committed, undone or redone
+export type ChangeListener = (changes: JournalEntry[]) => void;
+
+export interface HistoryQuery {
+  table?: string;
+  id?: number;
+  limit?: number;
+}
+
+// One line of the journal file
+type JournalEvent =
+  | { event: 'change'; changeSet: Omit<ChangeSet, 'undone'> }
+  | { event: 'undo' | 'redo'; id: number; timestamp: Date };
+
+interface WriteContext {
+  tool: string | null;
+  operation: string | null;
+  pending: Map<Journal, JournalEntry[]>;
+}
+
+const writeContext = new AsyncLocalStorage<WriteContext>();
+// Set while undo/redo writes records back, so those writes are not journaled again
+const replaying = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run `fn` as one journaled change: every write it makes is recorded as a
+ * single change set once it finishes, even if it fails halfway. Nested calls
+ * join the outermost one, so a tool that runs several actions is undone as a whole.
+ */
+export async function recordChanges<R>(
+  labels: { tool?: string; operation?: string },
+  fn: () => Promise<R>
+): Promise<R> {
+  const current = writeContext.getStore();
+  if (current) {
+    current.tool ??= labels.tool ?? null;
+    current.operation ??= labels.operation ?? null;
+    return fn();
+  }
+
+  const context: WriteContext = { tool: labels.tool ?? null, operation: labels.operation ?? null, pending: new Map() };
+  try {
+    return await writeContext.run(context, fn);
+  } finally {
+    for (const [journal, changes] of context.pending) {
+      await journal.commit(context, changes);
+    }
+  }
+}
+
+/**
+ * Run `fn` with its writes held apart from the enclosing change set: they join it
+ * when `fn` succeeds and are dropped when it throws, for callers that undo those
+ * writes themselves (see transactions.ts).
+ */
+export async function recordProvisionally<R>(fn: () => Promise<R>): Promise<R> {
+  const outer = writeContext.getStore();
+  const inner: WriteContext = { tool: outer?.tool ?? null, operation: outer?.operation ?? null, pending: new Map() };
+  const result = await writeContext.run(inner, fn);
+
+  for (const [journal, changes] of inner.pending) {
+    if (!outer) {
+      await journal.commit(inner, changes);
+    } else {
+      if (!outer.pending.has(journal)) outer.pending.set(journal, []);
+      outer.pending.get(journal)!.push(...changes);
+    }
+  }
+  return result;
+}
+
+// Run `fn` without journaling its writes
+export function withoutJournal<R>(fn: () => Promise<R>): Promise<R> {
+  return replaying.run(true, fn);
+}
+
+const snapshot = (record: any): Snapshot | null => (record ? structuredClone(record) : null);
+
+// Fields the backend manages itself; they are neither compared nor written back
+function stripInternal(record: Snapshot): Snapshot {
+  const { _id, _rev, type, ...fields } = record;
+  return fields;
+}
+
+const sameRecord = (a: Snapshot | null, b: Snapshot | null) =>
+  JSON.stringify(a && stripInternal(a)) === JSON.stringify(b && stripInternal(b));
+
+/**
+ * Audit journal of every write made to a database: table, id, the record
+ * before and after, and the tool that made it. Change sets can be undone and
+ * redone in stack order. With a file the journal is appended to as JSON lines
+ * and survives restarts. Only the newest change sets, up to `maxEntries`
+ * records, are kept in memory for history and undo; the file keeps them all.
+ */
+export class Journal {
+  private changeSets: ChangeSet[] = [];
+  private entryCount = 0;
+  private redoStack: number[] = [];
+  private nextId = 1;
+  private writes: Promise<void> = Promise.resolve();
+  private listeners = new Set<ChangeListener>();
+
+  constructor(
+    private db: TypedFedSimDatabase,
+    private readonly file?: string,
+    private readonly maxEntries = MAX_JOURNAL_ENTRIES
+  ) {}
+
+  async open(): Promise<void> {
+    if (this.file) {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await this.load(this.file);
+    }
+    for (const name of allTableNames) {
+      const table = (this.db as any)[name];
+      if (table) this.watch(name, table);
+    }
+  }
+
+  private async load(file: string): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw new Error(`Failed to load journal ${file}: ${(e as Error).message}`);
+    }
+
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      this.replay(JSON.parse(line, reviveDates) as JournalEvent);
+    }
+  }
+
+  private replay(event: JournalEvent): void {
+    if (event.event === 'change') {
+      this.changeSets.push({ ...event.changeSet, undone: false });
+      this.entryCount += event.changeSet.changes.length;
+      this.nextId = Math.max(this.nextId, event.changeSet.id + 1);
+      this.redoStack = [];
+      this.trim();
+      return;
+    }
+
+    const changeSet = this.changeSets.find(set => set.id === event.id);
+    if (!changeSet) return;
+    changeSet.undone = event.event === 'undo';
+    if (event.event === 'undo') {
+      this.redoStack.push(event.id);
+    } else {
+      this.redoStack.pop();
+    }
+  }
+
+  // Drop the oldest change sets while they hold too many records; the newest one always stays
+  private trim(): void {
+    while (this.changeSets.length > 1 && this.entryCount > this.maxEntries) {
+      this.entryCount -= this.changeSets.shift()!.changes.length;
+    }
+  }
+
+  private append(event: JournalEvent): Promise<void> {
+    this.replay(event);
+    if (!this.file) return Promise.resolve();
+    // Appends are chained so events land in the file in the order they happened
+    const file = this.file;
+    this.writes = this.writes.catch(() => {}).then(() => fs.appendFile(file, `${JSON.stringify(event)}\n`));
+    return this.writes;
+  }
+
+  // Listen for changes to the database; returns a function that stops listening
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(changes: JournalEntry[]): void {
+    for (const listener of this.listeners) {
+      listener(changes);
+    }
+  }
+
+  // Resolves once every journal event has been written
+  async flush(): Promise<void> {
+    await this.writes.catch(() => {});
+  }
+
+  // Wrap the table's write methods so each write is recorded with its before and after state
+  private watch(name: string, table: DatabaseTable<any>): void {
+    const { add, put, update, delete: remove, clear } = table;
+    const get = (id: number) => table.get(id);
+
+    table.add = async item => {
+      const id = await add.call(table, item);
+      this.record({ table: name, id, before: null, after: snapshot(await get(id)) });
+      return id;
+    };
+    table.put = async item => {
+      const before = snapshot(await get(item.id));
+      const id = await put.call(table, item);
+      this.record({ table: name, id, before, after: snapshot(await get(id)) });
+      return id;
+    };
+    table.update = async (id, updates, options) => {
+      const before = snapshot(await get(id));
+      await update.call(table, id, updates, options);
+      if (before) this.record({ table: name, id, before, after: snapshot(await get(id)) });
+    };
+    table.delete = async id => {
+      const before = snapshot(await get(id));
+      await remove.call(table, id);
+      if (before) this.record({ table: name, id, before, after: null });
+    };
+    table.clear = async () => {
+      const rows = (await table.toArray()).map(snapshot);
+      await clear.call(table);
+      rows.forEach(before => this.record({ table: name, id: before!.id, before, after: null }));
+    };
+  }
+
+  private record(entry: JournalEntry): void {
+    if (replaying.getStore()) return;
+
+    const context = writeContext.getStore();
+    if (context) {
+      if (!context.pending.has(this)) context.pending.set(this, []);
+      context.pending.get(this)!.push(entry);
+    } else {
+      // A write made outside any tool call is a change set of its own; nobody awaits it, so report failures here
+      this.commit({ tool: null, operation: null }, [entry]).catch(error => {
+        logger.error('Failed to journal change', {
+          table: entry.table,
+          id: entry.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
+  async commit(labels: { tool: string | null; operation: string | null }, changes: JournalEntry[]): Promise<void> {
+    if (changes.length === 0) return;
+    await this.append({
+      event: 'change',
+      changeSet: { id: this.nextId, tool: labels.tool, operation: labels.operation, timestamp: new Date(), changes },
+    });
+    this.notify(changes);
+  }
+
+  // Change sets, newest first, optionally only those touching one table or record
+  history({ table, id, limit = 20 }: HistoryQuery = {}): ChangeSet[] {
+    const matches = (entry: JournalEntry) =>
+      (table === undefined || entry.table === table) && (id === undefined || entry.id === id);
+
+    return [...this.changeSets]
+      .reverse()
+      .filter(set => set.changes.some(matches))
+      .slice(0, limit)
+      .map(set => ({ ...set, changes: set.changes.filter(matches) }));
+  }
+
+  // Revert the most recent change set that has not been undone
+  async undo(): Promise<ChangeSet> {
+    const changeSet = [...this.changeSets].reverse().find(set => !set.undone);
+    if (!changeSet) {
+      throw new Error('Nothing to undo');
+    }
+
+    await this.apply(changeSet, 'undo');
+    await this.append({ event: 'undo', id: changeSet.id, timestamp: new Date() });
+    // Undoing turns each entry around: what it left behind is replaced by what it found
+    this.notify([...changeSet.changes].reverse().map(entry => ({ ...entry, before: entry.after, after: entry.before })));
+    return changeSet;
+  }
+
+  // Re-apply the most recently undone change set, as long as nothing was written since
+  async redo(): Promise<ChangeSet> {
+    const changeSet = this.changeSets.find(set => set.id === this.redoStack[this.redoStack.length - 1]);
+    if (!changeSet) {
+      throw new Error('Nothing to redo');
+    }
+
+    await this.apply(changeSet, 'redo');
+    await this.append({ event: 'redo', id: changeSet.id, timestamp: new Date() });
+    this.notify(changeSet.changes);
+    return changeSet;
+  }
+
+  private async apply(changeSet: ChangeSet, direction: 'undo' | 'redo'): Promise<void> {
+    const entries = direction === 'undo' ? [...changeSet.changes].reverse() : changeSet.changes;
+    const tableOf = (entry: JournalEntry) => (this.db as any)[entry.table] as DatabaseTable<any>;
+
+    // Refuse before writing anything if a record no longer looks the way this change left it
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      const key = `${entry.table}:${entry.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const expected = direction === 'undo' ? entry.after : entry.before;
+      if (!sameRecord(snapshot(await tableOf(entry).get(entry.id)), expected)) {
+        throw new Error(`Cannot ${direction} change ${changeSet.id}: ${entry.table} ${entry.id} has been modified since`);
+      }
+    }
+
+    await replaying.run(true, async () => {
+      for (const entry of entries) {
+        const target = direction === 'undo' ? entry.before : entry.after;
+        if (target) {
+          await tableOf(entry).put(stripInternal(target) as any);
+        } else {
+          await tableOf(entry).delete(entry.id);
+        }
+      }
+    });
+  }
+}
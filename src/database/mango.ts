@@ -0,0 +1,235 @@
+// CouchDB Mango selector matching for the in-memory backend.
+// Semantics follow pouchdb-find so a selector returns the same docs on either backend.
+
+export type MangoSelector = Record<string, any>;
+
+export interface FindOptions {
+  sort?: Array<{ [field: string]: 'asc' | 'desc' }>;
+  skip?: number;
+  limit?: number;
+}
+
+const COMBINATION_OPERATORS = ['$and', '$or', '$nor', '$not'];
+const CONDITION_OPERATORS = [
+  '$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists',
+  '$regex', '$elemMatch', '$allMatch', '$all', '$size', '$mod', '$type',
+];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Dates are stored as Date objects in memory but as ISO strings in PouchDB
+const comparable = (value: any) => (value instanceof Date ? value.toISOString() : value);
+
+function typeRank(value: any): number {
+  if (value === null || value === undefined) return 1;
+  if (typeof value === 'boolean') return 2;
+  if (typeof value === 'number') return 3;
+  if (typeof value === 'string') return 4;
+  if (Array.isArray(value)) return 5;
+  return 6;
+}
+
+/**
+ * CouchDB collation: null < booleans < numbers < strings < arrays < objects,
+ * so range operators never match across types by accident.
+ */
+export function collate(a: any, b: any): number {
+  a = comparable(a);
+  b = comparable(b);
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0) return rankDiff < 0 ? -1 : 1;
+
+  if (Array.isArray(a)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const result = collate(a[i], b[i]);
+      if (result !== 0) return result;
+    }
+    return Math.sign(a.length - b.length);
+  }
+
+  if (isPlainObject(a)) {
+    return collate(Object.entries(a), Object.entries(b));
+  }
+
+  if (a === b || (a == null && b == null)) return 0;
+  return a < b ? -1 : 1;
+}
+
+function getField(doc: any, path: string): any {
+  let value = doc;
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = value[part];
+  }
+  return comparable(value);
+}
+
+function containsValue(fieldValue: any, candidates: any[]): boolean {
+  return candidates.some(candidate => Array.isArray(fieldValue)
+    ? fieldValue.some(item => collate(candidate, item) === 0)
+    : collate(candidate, fieldValue) === 0);
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    default: return typeof value === type;
+  }
+}
+
+function matchOperator(operator: string, operand: any, value: any): boolean {
+  const present = value !== undefined;
+  const exists = value !== undefined && value !== null;
+
+  switch (operator) {
+    case '$eq': return present && collate(value, operand) === 0;
+    case '$ne': return collate(value, operand) !== 0;
+    case '$gt': return present && collate(value, operand) > 0;
+    case '$gte': return present && collate(value, operand) >= 0;
+    case '$lt': return present && collate(value, operand) < 0;
+    case '$lte': return present && collate(value, operand) <= 0;
+    case '$exists': return operand ? present : !present;
+    case '$in': return exists && containsValue(value, operand);
+    case '$nin': return exists && !containsValue(value, operand);
+    case '$regex': return typeof value === 'string' && new RegExp(operand).test(value);
+    case '$size': return Array.isArray(value) && value.length === operand;
+    case '$mod': return Number.isInteger(value) && value % operand[0] === operand[1];
+    case '$type': return matchesType(value, operand);
+    case '$all':
+      return Array.isArray(value) && operand.every((item: any) => value.some(element => collate(item, element) === 0));
+    case '$elemMatch':
+    case '$allMatch': {
+      if (!Array.isArray(value) || value.length === 0) return false;
+      const matchItem = (item: any) => isPlainObject(item)
+        ? matchesSelector(item, operand)
+        : matchCondition(comparable(item), operand);
+      return operator === '$elemMatch' ? value.some(matchItem) : value.every(matchItem);
+    }
+    default:
+      throw new Error(`Unknown selector operator "${operator}"`);
+  }
+}
+
+function matchCondition(value: any, condition: any): boolean {
+  if (!isPlainObject(condition)) {
+    return matchOperator('$eq', condition, value);
+  }
+
+  return Object.entries(condition).every(([key, operand]) => {
+    if (key.startsWith('$')) {
+      return matchOperator(key, operand, value);
+    }
+    // Nested field, e.g. { stats: { wins: { $gt: 10 } } }
+    return matchCondition(getField(value, key), operand);
+  });
+}
+
+/**
+ * Check a document against a Mango selector. Selectors should be run through
+ * `normalizeSelector` first so bad operators are reported before any matching.
+ */
+export function matchesSelector(doc: any, selector: MangoSelector): boolean {
+  return Object.entries(selector).every(([key, condition]) => {
+    switch (key) {
+      case '$and': return condition.every((sub: MangoSelector) => matchesSelector(doc, sub));
+      case '$or': return condition.some((sub: MangoSelector) => matchesSelector(doc, sub));
+      case '$nor': return !condition.some((sub: MangoSelector) => matchesSelector(doc, sub));
+      case '$not': return !matchesSelector(doc, condition);
+      default: return matchCondition(getField(doc, key), condition);
+    }
+  });
+}
+
+function normalizeCondition(condition: any, path: string): any {
+  if (condition instanceof Date) return condition.toISOString();
+  if (!isPlainObject(condition)) return condition;
+
+  const normalized: Record<string, any> = {};
+  for (const [key, operand] of Object.entries(condition)) {
+    if (!key.startsWith('$')) {
+      normalized[key] = normalizeCondition(operand, `${path}.${key}`);
+      continue;
+    }
+    if (!CONDITION_OPERATORS.includes(key)) {
+      throw new Error(`Unknown selector operator "${key}" on ${path}`);
+    }
+
+    switch (key) {
+      case '$in':
+      case '$nin':
+      case '$all':
+        if (!Array.isArray(operand)) throw new Error(`${key} on ${path} must be an array`);
+        normalized[key] = operand.map(comparable);
+        break;
+      case '$regex':
+        if (typeof operand !== 'string') throw new Error(`$regex on ${path} must be a string`);
+        try {
+          new RegExp(operand);
+        } catch {
+          throw new Error(`$regex on ${path} is not a valid regular expression: ${operand}`);
+        }
+        normalized[key] = operand;
+        break;
+      case '$elemMatch':
+      case '$allMatch':
+        // `{ brandIds: { $elemMatch: 3 } }` is shorthand for `{ $elemMatch: { $eq: 3 } }`
+        normalized[key] = isPlainObject(operand)
+          ? (Object.keys(operand).every(k => k.startsWith('$'))
+            ? normalizeCondition(operand, path)
+            : normalizeSelector(operand))
+          : { $eq: comparable(operand) };
+        break;
+      default:
+        normalized[key] = comparable(operand);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Validate a selector and rewrite it into the form both backends understand:
+ * dates become ISO strings and the `$elemMatch: value` shorthand gets an explicit `$eq`.
+ */
+export function normalizeSelector(selector: MangoSelector = {}): MangoSelector {
+  if (!isPlainObject(selector)) {
+    throw new Error('Selector must be an object');
+  }
+
+  const normalized: MangoSelector = {};
+  for (const [key, condition] of Object.entries(selector)) {
+    if (key.startsWith('$')) {
+      if (!COMBINATION_OPERATORS.includes(key)) {
+        throw new Error(`Unknown selector operator "${key}"`);
+      }
+      if (key === '$not') {
+        normalized[key] = normalizeSelector(condition);
+      } else {
+        if (!Array.isArray(condition)) throw new Error(`${key} must be an array of selectors`);
+        normalized[key] = condition.map(sub => normalizeSelector(sub));
+      }
+      continue;
+    }
+    normalized[key] = normalizeCondition(condition, key);
+  }
+  return normalized;
+}
+
+// Sort, skip and limit already-matched docs the way pouchdb-find does
+export function applyFindOptions<T>(docs: T[], { sort, skip, limit }: FindOptions): T[] {
+  if (sort && sort.length > 0) {
+    docs.sort((a: any, b: any) => {
+      for (const sortField of sort) {
+        const [field, direction] = Object.entries(sortField)[0];
+        const comparison = collate(a[field], b[field]);
+        if (comparison !== 0) return direction === 'desc' ? -comparison : comparison;
+      }
+      return 0;
+    });
+  }
+
+  const start = skip ?? 0;
+  return docs.slice(start, limit ? start + limit : undefined);
+}
@@ -0,0 +1,164 @@
+import { version, stores } from './schema.js';
+
+// Rows of a Dexie export keyed by table name
+export type TableData = Record<string, any[]>;
+
+export interface MigrationStepReport {
+  from: number;
+  to: number;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  from: number;
+  to: number;
+  steps: MigrationStepReport[];
+}
+
+interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  up(data: TableData, log: (change: string) => void): TableData;
+  down(data: TableData, log: (change: string) => void): TableData;
+}
+
+export const databaseName = (schemaVersion: number) => `FedSim000${schemaVersion}`;
+
+// What export_dexie_data writes unless told otherwise; exports were always labelled version 17
+export const defaultExportVersion = 17;
+
+function renameTable(data: TableData, from: string, to: string, log: (change: string) => void): TableData {
+  if (!(from in data)) return data;
+  log(`Renamed table ${from} to ${to} (${data[from].length} rows)`);
+  // Rebuild the map so the table keeps its position in the export
+  return Object.fromEntries(Object.entries(data).map(([table, rows]) => [table === from ? to : table, rows]));
+}
+
+function dropTable(data: TableData, table: string, log: (change: string) => void): TableData {
+  if (!(table in data)) return data;
+  log(`Dropped table ${table} (${data[table].length} rows)`);
+  const { [table]: _dropped, ...rest } = data;
+  return rest;
+}
+
+function renameField(data: TableData, table: string, from: string, to: string, log: (change: string) => void): void {
+  const rows = (data[table] || []).filter(row => row && typeof row === 'object' && from in row);
+  for (const row of rows) {
+    row[to] = row[from];
+    delete row[from];
+  }
+  if (rows.length > 0) log(`${table}: renamed ${from} to ${to} in ${rows.length} rows`);
+}
+
+// Store definitions for every schema version we can read or write. Saves from
+// before version 14 are not supported: there are no store definitions for them here.
+const versionStores: Record<number, Record<string, string>> = {
+  14: stores,
+  17: Object.fromEntries(
+    Object.entries(stores)
+      .filter(([table]) => table !== 'StorylineGoal' && table !== 'Notification')
+      .map(([table, params]): [string, string] => {
+        switch (table) {
+          case 'StorylineTemplate':
+            return [table, '++id, name, description, category, suggestedDurationWeeks, roles, requirements, storyBeats, active'];
+          case 'ActiveStoryline':
+            return ['Storyline', '++id, templateId, name, description, targetEventId, startDate, endDate, status, participants, intensity, peakIntensity'];
+          case 'StorylineSegment':
+            return ['StorylineBeat', '++id, storylineId, beatId, segmentId, completedDate, productionId'];
+          default:
+            return [table, params];
+        }
+      })
+  ),
+};
+
+/**
+ * Steps between adjacent schema versions, oldest first. Fields a version does
+ * not index are left on the rows: Dexie keeps unindexed properties, so moving
+ * data up and back down again does not lose them.
+ */
+const migrations: Migration[] = [
+  {
+    from: 14,
+    to: 17,
+    description: 'Storylines move to Storyline and StorylineBeat; goals and notifications are removed',
+    up(data, log) {
+      const templates = (data.StorylineTemplate || []).filter(row => row && (row.maxDuration !== undefined || row.minDuration !== undefined));
+      for (const row of templates) {
+        row.suggestedDurationWeeks = row.maxDuration ?? row.minDuration;
+        delete row.minDuration;
+        delete row.maxDuration;
+      }
+      if (templates.length > 0) {
+        log(`StorylineTemplate: merged minDuration and maxDuration into suggestedDurationWeeks in ${templates.length} rows`);
+      }
+      renameField(data, 'StorylineTemplate', 'segments', 'storyBeats', log);
+      renameField(data, 'ActiveStoryline', 'targetDate', 'endDate', log);
+      data = renameTable(data, 'ActiveStoryline', 'Storyline', log);
+      data = renameTable(data, 'StorylineSegment', 'StorylineBeat', log);
+      data = dropTable(data, 'StorylineGoal', log);
+      return dropTable(data, 'Notification', log);
+    },
+    down(data, log) {
+      const templates = (data.StorylineTemplate || []).filter(row => row && row.suggestedDurationWeeks !== undefined);
+      for (const row of templates) {
+        row.minDuration = row.suggestedDurationWeeks;
+        row.maxDuration = row.suggestedDurationWeeks;
+        delete row.suggestedDurationWeeks;
+      }
+      if (templates.length > 0) {
+        log(`StorylineTemplate: copied suggestedDurationWeeks to minDuration and maxDuration in ${templates.length} rows`);
+      }
+      renameField(data, 'StorylineTemplate', 'storyBeats', 'segments', log);
+      renameField(data, 'Storyline', 'endDate', 'targetDate', log);
+      data = renameTable(data, 'Storyline', 'ActiveStoryline', log);
+      return renameTable(data, 'StorylineBeat', 'StorylineSegment', log);
+    },
+  },
+];
+
+export const supportedVersions = Object.keys(versionStores).map(Number);
+
+// Store definitions of a schema version, e.g. to label an export
+export function storesFor(schemaVersion: number): Record<string, string> {
+  const definitions = versionStores[schemaVersion];
+  if (!definitions) {
+    throw new Error(`Unsupported schema version ${schemaVersion} (supported: ${supportedVersions.join(', ')})`);
+  }
+  return definitions;
+}
+
+/**
+ * Move exported table data from one schema version to another, one step at a
+ * time. The input is left untouched; the report lists what every step changed.
+ */
+export function migrateTables(data: TableData, from: number, to: number = version): { data: TableData; report: MigrationReport } {
+  storesFor(from);
+  storesFor(to);
+
+  let migrated: TableData = Object.fromEntries(
+    Object.entries(data).map(([table, rows]) => [table, (rows || []).map(row => (row && typeof row === 'object' ? { ...row } : row))])
+  );
+  const report: MigrationReport = { from, to, steps: [] };
+
+  let current = from;
+  while (current !== to) {
+    const upgrading = current < to;
+    const step = upgrading
+      ? migrations.find(migration => migration.from === current && migration.to <= to)
+      : migrations.find(migration => migration.to === current && migration.from >= to);
+    if (!step) {
+      throw new Error(`No migration path from schema version ${from} to ${to}`);
+    }
+
+    const changes: string[] = [];
+    migrated = upgrading ? step.up(migrated, change => changes.push(change)) : step.down(migrated, change => changes.push(change));
+    const next = upgrading ? step.to : step.from;
+    report.steps.push({ from: current, to: next, description: step.description, changes });
+    current = next;
+  }
+
+  return { data: migrated, report };
+}
@@ -0,0 +1,192 @@
+import { ReferentialIntegrityError } from './errors.js';
+
+export type DeleteBehaviour = 'restrict' | 'cascade' | 'nullify';
+
+export interface Relation {
+  // Table holding the reference and the id / id-array field it lives in
+  table: string;
+  field: string;
+  // Table the ids point at
+  references: string;
+  // What happens to `table` rows when a referenced record is deleted
+  onDelete: DeleteBehaviour;
+  // `table` owns the referenced records: deleting the owner deletes them too
+  owns?: boolean;
+}
+
+export const relations: Relation[] = [
+  // Brands
+  { table: 'Wrestler', field: 'brandIds', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Production', field: 'brandIds', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Show', field: 'brandIds', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Championship', field: 'brandIds', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Faction', field: 'brandIds', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Rumble', field: 'brandIds', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Draft', field: 'brandId', references: 'Brand', onDelete: 'nullify' },
+  { table: 'Brand', field: 'companyId', references: 'Company', onDelete: 'nullify' },
+
+  // Productions own their segments, segments own their appearances
+  { table: 'Production', field: 'segmentIds', references: 'Segment', onDelete: 'nullify', owns: true },
+  { table: 'Production', field: 'venueId', references: 'Venue', onDelete: 'nullify' },
+  { table: 'Production', field: 'showId', references: 'Show', onDelete: 'nullify' },
+  { table: 'Segment', field: 'appearanceIds', references: 'Appearance', onDelete: 'nullify', owns: true },
+  { table: 'Segment', field: 'championshipIds', references: 'Championship', onDelete: 'nullify' },
+  { table: 'Bet', field: 'segmentId', references: 'Segment', onDelete: 'cascade' },
+
+  // Wrestlers
+  { table: 'Appearance', field: 'wrestlerId', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Championship', field: 'wrestlerIds', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Faction', field: 'wrestlerIds', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Faction', field: 'leaderIds', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Faction', field: 'managerIds', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Reign', field: 'wrestlerIds', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Draft', field: 'wrestlerId', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Bet', field: 'wrestlerId', references: 'Wrestler', onDelete: 'nullify' },
+  { table: 'Rumble', field: 'winnerId', references: 'Wrestler', onDelete: 'nullify' },
+
+  // Championships and storylines
+  { table: 'Reign', field: 'championshipId', references: 'Championship', onDelete: 'cascade' },
+  { table: 'Rumble', field: 'championshipId', references: 'Championship', onDelete: 'nullify' },
+  { table: 'StorylineSegment', field: 'storylineId', references: 'ActiveStoryline', onDelete: 'cascade' },
+  { table: 'StorylineGoal', field: 'storylineId', references: 'ActiveStoryline', onDelete: 'cascade' },
+  { table: 'StorylineSegment', field: 'segmentId', references: 'Segment', onDelete: 'nullify' },
+];
+
+/**
+ * Copy of the relation list with some behaviours changed, keyed by `Table.field`,
+ * e.g. `{ 'Appearance.wrestlerId': 'restrict' }`.
+ */
+export function withDeleteBehaviour(overrides: Record<string, DeleteBehaviour>, base: Relation[] = relations): Relation[] {
+  return base.map(relation => {
+    const behaviour = overrides[`${relation.table}.${relation.field}`];
+    return behaviour ? { ...relation, onDelete: behaviour } : relation;
+  });
+}
+
+export interface RecordRef {
+  table: string;
+  id: number;
+}
+
+export interface DeleteReport {
+  deleted: RecordRef[];
+  updated: Array<RecordRef & { field: string }>;
+  // The deleted rows and the values `updated` replaced, as they were before the delete
+  removed: Array<{ table: string; record: any }>;
+  previous: Array<RecordRef & { field: string; value: any }>;
+}
+
+const refersTo = (value: any, id: number) =>
+  Array.isArray(value) ? value.includes(id) : value === id;
+
+/**
+ * Delete a record and apply every relation that points at it (or that it owns).
+ * The whole plan is worked out before anything is written, so a `restrict`
+ * violation leaves the database untouched.
+ */
+export async function deleteWithRelations(
+  db: any,
+  table: string,
+  id: number,
+  relationList: Relation[] = relations
+): Promise<DeleteReport> {
+  const rowsCache = new Map<string, any[]>();
+  const rowsOf = async (name: string): Promise<any[]> => {
+    if (!db[name]) return [];
+    if (!rowsCache.has(name)) {
+      rowsCache.set(name, (await db[name].toArray()) ?? []);
+    }
+    return rowsCache.get(name)!;
+  };
+
+  // Phase 1: everything that will be deleted (the record, what it owns, cascades)
+  const toDelete: RecordRef[] = [{ table, id }];
+  const deleting = new Set([`${table}:${id}`]);
+  const enqueue = (ref: RecordRef) => {
+    const key = `${ref.table}:${ref.id}`;
+    if (!deleting.has(key)) {
+      deleting.add(key);
+      toDelete.push(ref);
+    }
+  };
+
+  for (let i = 0; i < toDelete.length; i++) {
+    const current = toDelete[i];
+
+    for (const relation of relationList.filter(r => r.owns && r.table === current.table)) {
+      const record = (await rowsOf(current.table)).find(row => row.id === current.id);
+      const owned = record?.[relation.field];
+      const ownedRows = await rowsOf(relation.references);
+      for (const ownedId of Array.isArray(owned) ? owned : owned != null ? [owned] : []) {
+        // Dangling ids have nothing left to delete
+        if (ownedRows.some(row => row.id === ownedId)) {
+          enqueue({ table: relation.references, id: ownedId });
+        }
+      }
+    }
+
+    for (const relation of relationList.filter(r => r.onDelete === 'cascade' && r.references === current.table)) {
+      for (const row of await rowsOf(relation.table)) {
+        if (refersTo(row[relation.field], current.id)) {
+          enqueue({ table: relation.table, id: row.id });
+        }
+      }
+    }
+  }
+
+  // Phase 2: surviving rows that still point at deleted records
+  const updates = new Map<string, { ref: RecordRef; changes: Record<string, any> }>();
+  const blockers: Array<RecordRef & { field: string }> = [];
+
+  for (const removed of toDelete) {
+    for (const relation of relationList.filter(r => r.references === removed.table && r.onDelete !== 'cascade')) {
+      for (const row of await rowsOf(relation.table)) {
+        if (deleting.has(`${relation.table}:${row.id}`)) continue;
+
+        const key = `${relation.table}:${row.id}`;
+        const pending = updates.get(key);
+        const value = pending && relation.field in pending.changes
+          ? pending.changes[relation.field]
+          : row[relation.field];
+        if (!refersTo(value, removed.id)) continue;
+
+        if (relation.onDelete === 'restrict') {
+          blockers.push({ table: relation.table, id: row.id, field: relation.field });
+          continue;
+        }
+
+        const entry = pending ?? { ref: { table: relation.table, id: row.id }, changes: {} as Record<string, any> };
+        entry.changes[relation.field] = Array.isArray(value)
+          ? value.filter((refId: number) => refId !== removed.id)
+          : null;
+        updates.set(key, entry);
+      }
+    }
+  }
+
+  if (blockers.length > 0) {
+    throw new ReferentialIntegrityError(table, id, blockers);
+  }
+
+  // Phase 3: apply
+  const report: DeleteReport = { deleted: [], updated: [], removed: [], previous: [] };
+
+  for (const { ref, changes } of updates.values()) {
+    const row = (await rowsOf(ref.table)).find(candidate => candidate.id === ref.id);
+    await db[ref.table].update(ref.id, changes);
+    for (const field of Object.keys(changes)) {
+      report.updated.push({ ...ref, field });
+      report.previous.push({ ...ref, field, value: row[field] });
+    }
+  }
+
+  for (const ref of toDelete) {
+    if (!db[ref.table]) continue;
+    const row = (await rowsOf(ref.table)).find(candidate => candidate.id === ref.id);
+    await db[ref.table].delete(ref.id);
+    report.deleted.push(ref);
+    if (row) report.removed.push({ table: ref.table, record: row });
+  }
+
+  return report;
+}
@@ -0,0 +1,31 @@
+import { randomBytes } from 'crypto';
+import { RecordNotFoundError, RevisionConflictError } from './errors.js';
+
+export interface UpdateOptions {
+  // Revision (`_rev`) the update was based on; the update fails if the record has moved on
+  expectedRevision?: string;
+}
+
+/**
+ * CouchDB-style revision token, `<generation>-<random>`, so every backend hands
+ * out revisions shaped like PouchDB's own.
+ */
+export function nextRevision(previous?: string): string {
+  const generation = Number.parseInt(previous ?? '0', 10) || 0;
+  return `${generation + 1}-${randomBytes(8).toString('hex')}`;
+}
+
+// Throw unless the record exists and, when asked, is still at the expected revision
+export function assertRevision(
+  table: string,
+  id: number,
+  record: { _rev?: string } | undefined,
+  options: UpdateOptions = {}
+): void {
+  if (!record) {
+    throw new RecordNotFoundError(table, id);
+  }
+  if (options.expectedRevision !== undefined && record._rev !== options.expectedRevision) {
+    throw new RevisionConflictError(table, id, options.expectedRevision, record._rev);
+  }
+}
@@ -0,0 +1,114 @@
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { SimpleDatabase } from './simple-db.js';
+import { captureTables, diffTables, applyDiff, type TableState, type TableDiff } from './snapshots.js';
+
+export interface Sandbox {
+  id: number;
+  label: string;
+  createdAt: Date;
+  // Throwaway in-memory copy that sandboxed tools write to
+  db: SimpleDatabase;
+  // The universe as it was when the copy was made
+  base: TableState;
+}
+
+// Each sandbox holds a full copy of the universe in memory
+export const MAX_SANDBOXES = 5;
+
+const sameRecord = (a: any, b: any) => {
+  const strip = (record: any) => {
+    if (!record) return null;
+    const { _id, _rev, type, ...fields } = record;
+    return fields;
+  };
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+};
+
+/**
+ * What-if copies of one database. A sandbox starts as a full copy of the
+ * universe; committing it writes back only what changed in the copy, and only
+ * if the universe has not changed those records in the meantime. At most
+ * `limit` sandboxes are open at once.
+ */
+export class SandboxManager {
+  private sandboxes = new Map<number, Sandbox>();
+  private nextId = 1;
+
+  constructor(private db: TypedFedSimDatabase, private limit = MAX_SANDBOXES) {}
+
+  async create(label: string): Promise<Sandbox> {
+    if (this.sandboxes.size >= this.limit) {
+      throw new Error(`Too many sandboxes: ${this.limit} are open already; commit or discard one first`);
+    }
+    const base = await captureTables(this.db);
+    const copy = new SimpleDatabase();
+    for (const [table, records] of Object.entries(base.tables)) {
+      const tableRef = (copy as any)[table];
+      for (const { _id, _rev, type, ...record } of structuredClone(records)) {
+        await tableRef.put(record);
+      }
+      await tableRef.setSequence(base.sequences[table]);
+    }
+
+    const sandbox: Sandbox = { id: this.nextId++, label, createdAt: new Date(), db: copy, base };
+    this.sandboxes.set(sandbox.id, sandbox);
+    return sandbox;
+  }
+
+  list(): Sandbox[] {
+    return [...this.sandboxes.values()];
+  }
+
+  get(id: number): Sandbox {
+    const sandbox = this.sandboxes.get(id);
+    if (!sandbox) {
+      throw new Error(`Sandbox ${id} not found`);
+    }
+    return sandbox;
+  }
+
+  // Changes made in the sandbox since it was copied
+  async changes(id: number): Promise<Record<string, TableDiff>> {
+    const sandbox = this.get(id);
+    return diffTables(sandbox.base.tables, (await captureTables(sandbox.db)).tables);
+  }
+
+  async commit(id: number): Promise<Record<string, TableDiff>> {
+    const sandbox = this.get(id);
+    const result = await captureTables(sandbox.db);
+    const diff = diffTables(sandbox.base.tables, result.tables);
+
+    // Refuse before writing anything if the universe moved on under the sandbox
+    for (const [table, tableDiff] of Object.entries(diff)) {
+      const baseRecords = new Map(sandbox.base.tables[table].map(record => [record.id, record]));
+      for (const recordId of [...tableDiff.added, ...tableDiff.removed, ...tableDiff.changed.map(change => change.id)]) {
+        const current = await (this.db as any)[table].get(recordId);
+        if (!sameRecord(current, baseRecords.get(recordId))) {
+          throw new Error(`Cannot commit sandbox ${id}: ${table} ${recordId} changed in the universe since the sandbox was created`);
+        }
+      }
+    }
+
+    await applyDiff(this.db, diff, result);
+    this.sandboxes.delete(id);
+    return diff;
+  }
+
+  discard(id?: number): number[] {
+    const ids = id === undefined ? [...this.sandboxes.keys()] : [this.get(id).id];
+    ids.forEach(sandboxId => this.sandboxes.delete(sandboxId));
+    return ids;
+  }
+}
+
+const managers = new WeakMap<TypedFedSimDatabase, SandboxManager>();
+
+// Tools are created per database, so sandboxes are shared through the database they copy
+export function getSandboxes(db: TypedFedSimDatabase): SandboxManager {
+  let manager = managers.get(db);
+  if (!manager) {
+    manager = new SandboxManager(db);
+    managers.set(db, manager);
+  }
+  return manager;
+}
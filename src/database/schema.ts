@@ -93,7 +93,51 @@ export const Groups = [
   },
 ];
 
-export const stores = Groups.reduce((acc, group) => {
+// Not part of Fed Simulator X: tables this server keeps for itself. They are left out
+// of schemas, backups, exports and table listings, and never written by imports
+export const InternalGroups = [
+  // Deleted records waiting to be restored, see trash.ts
+  {
+    group: 'Trash',
+    params: '++id, table, recordId, name, deletedAt, records, references',
+  },
+];
+
+// Fed Simulator X tables, in schema order
+export const tableNames = Groups.map(group => group.group);
+
+export const internalTables = InternalGroups.map(group => group.group);
+
+// Every table the database holds: the Fed Simulator X ones, then the server's own
+export const allTableNames = [...tableNames, ...internalTables];
+
+const storesOf = (groups: typeof Groups) => groups.reduce((acc, group) => {
   acc[group.group] = group.params;
   return acc;
-}, {} as Record<string, string>);
\ No newline at end of file
+}, {} as Record<string, string>);
+
+export const stores = storesOf(Groups);
+
+// Store definitions of every table, internal ones included
+export const allStores = storesOf([...Groups, ...InternalGroups]);
+
+/**
+ * Field names declared by a Dexie store definition, e.g. `++id, name, [a+b]`
+ * becomes `['id', 'name']`. Compound indexes only repeat existing fields.
+ */
+export function parseSchemaFields(params: string): string[] {
+  return params
+    .split(',')
+    .map(field => field.trim())
+    .filter(field => field && !field.startsWith('['))
+    .map(field => field.replace(/^(\+\+|&|\*)/, ''));
+}
+
+// Compound indexes in a store definition, e.g. `[groupId+wrestlerId]` becomes `[['groupId', 'wrestlerId']]`
+export function parseCompoundIndexes(params: string): string[][] {
+  return params
+    .split(',')
+    .map(field => field.trim())
+    .filter(field => field.startsWith('[') && field.endsWith(']'))
+    .map(field => field.slice(1, -1).split('+').map(part => part.trim()));
+}
@@ -1,7 +1,15 @@
-import type { PouchDBSelector, PouchDBFindResult, PouchDBFindOptions, DatabaseError } from '../types/database.js';
+import type { PouchDBSelector, PouchDBFindResult, PouchDBFindOptions, DatabaseError, DatabaseTable, TypedFedSimDatabase } from '../types/database.js';
+import { FileStore } from './file-store.js';
+import { tableNames, allTableNames, stores, parseSchemaFields } from './schema.js';
+import { assertValidRecord } from './validation.js';
+import { nextRevision, assertRevision, type UpdateOptions } from './revisions.js';
+import { runTransaction } from './transactions.js';
+import { matchesSelector, normalizeSelector, applyFindOptions, type MangoSelector } from './mango.js';
+import { QueryableTable } from './collection.js';
 
 export interface Wrestler {
   _id?: string;
+  _rev?: string;
   id?: number;
   type: 'Wrestler';
   name: string;
@@ -46,71 +54,116 @@ export interface Wrestler {
 }
 
 // Simple in-memory database for MCP server
-class SimpleDBTable<T extends { _id?: string; id?: number; type: string }> {
+class SimpleDBTable<T extends { _id?: string; _rev?: string; id?: number; type: string }> extends QueryableTable<T> implements DatabaseTable<T> {
   private storage = new Map<string, T>();
+  private store?: FileStore;
+  // Dexie-style `++id`: ids are never reused, even after deletes or clear()
+  private nextId = 1;
 
-  constructor(private docType: string) {}
+  constructor(private docType: string) {
+    super();
+  }
+
+  // Load persisted documents and write every later change through to the store
+  async attach(store: FileStore): Promise<void> {
+    const { nextId, docs } = await store.load(this.docType);
+    this.storage.clear();
+    for (const doc of docs) {
+      this.storage.set(doc._id, doc);
+    }
+    this.nextId = Math.max(nextId ?? 1, this.highestId() + 1);
+    this.store = store;
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.store) return;
+    await this.store.save(this.docType, { nextId: this.nextId, docs: Array.from(this.storage.values()) });
+  }
+
+  private highestId(): number {
+    let highest = 0;
+    for (const doc of this.storage.values()) {
+      if (typeof doc.id === 'number' && doc.id > highest) highest = doc.id;
+    }
+    return highest;
+  }
+
+  // Next id that add() will hand out
+  async getSequence(): Promise<number> {
+    return this.nextId;
+  }
+
+  // Restore a saved counter, never dropping below an id that is still in use
+  async setSequence(next: number): Promise<void> {
+    this.nextId = Math.max(next, this.highestId() + 1);
+    await this.persist();
+  }
 
   async add(item: Omit<T, '_id' | 'id' | 'type'>): Promise<number> {
-    const id = Date.now() + Math.floor(Math.random() * 1000);
+    assertValidRecord(this.docType, item);
+    const id = this.nextId++;
     const doc = {
       ...item,
       _id: `${this.docType.toLowerCase()}:${id}`,
+      _rev: nextRevision(),
       id,
       type: this.docType,
     } as T;
     
     this.storage.set(doc._id!, doc);
+    await this.persist();
     return id;
   }
 
+  // Insert or replace a record, keeping the id it already carries
+  async put(item: Omit<T, '_id' | 'type'> & { id: number }): Promise<number> {
+    assertValidRecord(this.docType, item);
+    const _id = `${this.docType.toLowerCase()}:${item.id}`;
+    const doc = {
+      ...item,
+      _id,
+      _rev: nextRevision(this.storage.get(_id)?._rev),
+      type: this.docType,
+    } as T;
+
+    this.storage.set(doc._id!, doc);
+    this.nextId = Math.max(this.nextId, item.id + 1);
+    await this.persist();
+    return item.id;
+  }
+
   async get(id: number): Promise<T | undefined> {
     const docId = `${this.docType.toLowerCase()}:${id}`;
     return this.storage.get(docId);
   }
 
-  async update(id: number, updates: Partial<T>): Promise<void> {
+  async update(id: number, updates: Partial<T>, options?: UpdateOptions): Promise<void> {
+    assertValidRecord(this.docType, updates);
     const docId = `${this.docType.toLowerCase()}:${id}`;
     const existing = this.storage.get(docId);
-    if (existing) {
-      const updated = { ...existing, ...updates };
-      this.storage.set(docId, updated);
-    }
+    assertRevision(this.docType, id, existing, options);
+
+    this.storage.set(docId, { ...existing!, ...updates, _rev: nextRevision(existing!._rev) });
+    await this.persist();
   }
 
   async delete(id: number): Promise<void> {
     const docId = `${this.docType.toLowerCase()}:${id}`;
-    this.storage.delete(docId);
+    if (this.storage.delete(docId)) {
+      await this.persist();
+    }
   }
 
+  // Primary key order like the other backends, even for records put back after a delete
   async toArray(): Promise<T[]> {
-    return Array.from(this.storage.values()).filter(doc => doc.type === this.docType);
+    return Array.from(this.storage.values())
+      .filter(doc => doc.type === this.docType)
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
   }
 
-  where(field: keyof T) {
-    return {
-      equals: async (value: any): Promise<T[]> => {
-        const results = Array.from(this.storage.values()).filter(doc => 
-          doc.type === this.docType && doc[field] === value
-        );
-        return results;
-      },
-      contains: async (value: any): Promise<T[]> => {
-        const results = Array.from(this.storage.values()).filter(doc => 
-          doc.type === this.docType && 
-          Array.isArray(doc[field]) && 
-          (doc[field] as any[]).includes(value)
-        );
-        return results;
-      },
-      like: async (value: string): Promise<T[]> => {
-        const results = Array.from(this.storage.values()).filter(doc => 
-          doc.type === this.docType && 
-          String(doc[field]).toLowerCase().includes(value.toLowerCase())
-        );
-        return results;
-      }
-    };
+  protected async select(selector: MangoSelector): Promise<T[]> {
+    const normalized = normalizeSelector(selector);
+    return (await this.toArray()).filter(doc => matchesSelector(doc, normalized));
   }
 
   async count(): Promise<number> {
@@ -122,47 +175,7 @@ class SimpleDBTable<T extends { _id?: string; id?: number; type: string }> {
       key.startsWith(`${this.docType.toLowerCase()}:`)
     );
     keysToDelete.forEach(key => this.storage.delete(key));
-  }
-
-  toCollection() {
-    const self = this;
-    return {
-      offset(count: number) {
-        return {
-          async toArray(): Promise<T[]> {
-            const all = await self.toArray();
-            return all.slice(count);
-          }
-        };
-      },
-      sortBy(field: string) {
-        return {
-          async toArray(): Promise<T[]> {
-            const all = await self.toArray();
-            return all.sort((a, b) => {
-              const aVal = a[field as keyof T];
-              const bVal = b[field as keyof T];
-              if (aVal < bVal) return -1;
-              if (aVal > bVal) return 1;
-              return 0;
-            });
-          }
-        };
-      },
-      async toArray(): Promise<T[]> {
-        return self.toArray();
-      }
-    };
-  }
-
-  filter(predicate: (item: T) => boolean) {
-    const self = this;
-    return {
-      async toArray(): Promise<T[]> {
-        const all = Array.from(self.storage.values()).filter(doc => doc.type === self.docType) as T[];
-        return all.filter(predicate);
-      }
-    };
+    await this.persist();
   }
 
   async query(selector: any, options: any = {}): Promise<T[]> {
@@ -170,12 +183,8 @@ class SimpleDBTable<T extends { _id?: string; id?: number; type: string }> {
     
     // Apply selector
     if (selector) {
-      Object.keys(selector).forEach(key => {
-        if (key !== 'type') {
-          const value = selector[key];
-          results = results.filter(doc => doc[key as keyof T] === value);
-        }
-      });
+      const normalized = normalizeSelector({ ...selector, type: this.docType });
+      results = results.filter(doc => matchesSelector(doc, normalized));
     }
     
     // Apply limit
@@ -187,143 +196,92 @@ class SimpleDBTable<T extends { _id?: string; id?: number; type: string }> {
   }
 }
 
-export class SimpleDatabase {
-  public Wrestler: SimpleDBTable<any>;
-  public Brand: SimpleDBTable<any>;
-  public Company: SimpleDBTable<any>;
-  public Production: SimpleDBTable<any>;
-  public Championship: SimpleDBTable<any>;
-  public Show: SimpleDBTable<any>;
-  public Venue: SimpleDBTable<any>;
-  public Segment: SimpleDBTable<any>;
-  public Appearance: SimpleDBTable<any>;
-  public MatchResult: SimpleDBTable<any>;
-  public Storyline: SimpleDBTable<any>;
-  public StorylineSegment: SimpleDBTable<any>;
-  public StorylineGoal: SimpleDBTable<any>;
-  public Reign: SimpleDBTable<any>;
-  public Rumble: SimpleDBTable<any>;
-  public Bet: SimpleDBTable<any>;
-  public Favourite: SimpleDBTable<any>;
-  public Notification: SimpleDBTable<any>;
+export class SimpleDatabase implements TypedFedSimDatabase {
+  public Venue!: SimpleDBTable<any>;
+  public Company!: SimpleDBTable<any>;
+  public Brand!: SimpleDBTable<any>;
+  public Wrestler!: SimpleDBTable<any>;
+  public Championship!: SimpleDBTable<any>;
+  public Show!: SimpleDBTable<any>;
+  public Bet!: SimpleDBTable<any>;
+  public Production!: SimpleDBTable<any>;
+  public Segment!: SimpleDBTable<any>;
+  public Appearance!: SimpleDBTable<any>;
+  public Faction!: SimpleDBTable<any>;
+  public Draft!: SimpleDBTable<any>;
+  public Game!: SimpleDBTable<any>;
+  public StorylineTemplate!: SimpleDBTable<any>;
+  public ActiveStoryline!: SimpleDBTable<any>;
+  public StorylineSegment!: SimpleDBTable<any>;
+  public StorylineGoal!: SimpleDBTable<any>;
+  public Reign!: SimpleDBTable<any>;
+  public Rumble!: SimpleDBTable<any>;
+  public Favourite!: SimpleDBTable<any>;
+  public Notification!: SimpleDBTable<any>;
+  public Trash!: SimpleDBTable<any>;
+  private tables: SimpleDBTable<any>[];
+  private store?: FileStore;
 
   constructor() {
-    this.Wrestler = new SimpleDBTable('Wrestler');
-    this.Brand = new SimpleDBTable('Brand');
-    this.Company = new SimpleDBTable('Company');
-    this.Production = new SimpleDBTable('Production');
-    this.Championship = new SimpleDBTable('Championship');
-    this.Show = new SimpleDBTable('Show');
-    this.Venue = new SimpleDBTable('Venue');
-    this.Segment = new SimpleDBTable('Segment');
-    this.Appearance = new SimpleDBTable('Appearance');
-    this.MatchResult = new SimpleDBTable('MatchResult');
-    this.Storyline = new SimpleDBTable('Storyline');
-    this.StorylineSegment = new SimpleDBTable('StorylineSegment');
-    this.StorylineGoal = new SimpleDBTable('StorylineGoal');
-    this.Reign = new SimpleDBTable('Reign');
-    this.Rumble = new SimpleDBTable('Rumble');
-    this.Bet = new SimpleDBTable('Bet');
-    this.Favourite = new SimpleDBTable('Favourite');
-    this.Notification = new SimpleDBTable('Notification');
-  }
-
-  async getSchema(): Promise<{ [tableName: string]: string[] }> {
-    const schema: { [tableName: string]: string[] } = {};
-    const tables = [
-      'Wrestler', 'Brand', 'Company', 'Production', 'Championship', 
-      'Show', 'Venue', 'Segment', 'MatchResult', 'Storyline',
-      'StorylineSegment', 'StorylineGoal', 'Reign', 'Rumble', 
-      'Bet', 'Favourite', 'Notification'
-    ];
-    
-    tables.forEach(tableName => {
-      schema[tableName] = ['id', 'type', '_id']; // Basic fields all tables have
+    // One table per schema.ts group, internal ones included, so every backend exposes the same tables
+    this.tables = allTableNames.map(name => {
+      const table = new SimpleDBTable<any>(name);
+      (this as any)[name] = table;
+      return table;
     });
-    
-    return schema;
   }
 
-  async backup(): Promise<any> {
-    const backup: any = {};
-    const tables = [
-      'Wrestler', 'Brand', 'Company', 'Production', 'Championship', 
-      'Show', 'Venue', 'Segment', 'MatchResult', 'Storyline',
-      'StorylineSegment', 'StorylineGoal', 'Reign', 'Rumble', 
-      'Bet', 'Favourite', 'Notification'
-    ];
-    
-    for (const tableName of tables) {
-      const table = this[tableName as keyof this] as SimpleDBTable<any>;
-      backup[tableName] = await table.toArray();
+  /**
+   * Switch to file-backed storage: every table is loaded from `dataDir`
+   * and all subsequent writes are persisted there.
+   */
+  async open(options: { dataDir?: string } = {}): Promise<void> {
+    if (!options.dataDir) return;
+
+    const store = new FileStore(options.dataDir);
+    await store.init();
+    for (const table of this.tables) {
+      await table.attach(store);
     }
-    
-    return backup;
+    this.store = store;
   }
 
-  async find(options: any): Promise<{ docs: any[] }> {
-    const { selector, sort, limit } = options;
-    let results: any[] = [];
+  // All-or-nothing writes across tables, see transactions.ts
+  transaction<R>(fn: () => Promise<R>): Promise<R> {
+    return runTransaction(this, fn);
+  }
 
-    // Get all documents and filter by selector
-    const allTables = [
-      this.Wrestler, this.Brand, this.Company, this.Production, 
-      this.Championship, this.Show, this.Venue, this.Segment,
-      this.MatchResult, this.Storyline, this.StorylineSegment, 
-      this.StorylineGoal, this.Reign, this.Rumble, this.Bet, 
-      this.Favourite, this.Notification
-    ];
+  // Wait for queued file writes; the in-memory data stays usable
+  async close(): Promise<void> {
+    await this.store?.flush();
+  }
 
-    for (const table of allTables) {
-      const tableData = await table.toArray();
-      results.push(...tableData);
+  async getSchema(): Promise<{ [tableName: string]: string[] }> {
+    const schema: { [tableName: string]: string[] } = {};
+    for (const tableName of tableNames) {
+      schema[tableName] = parseSchemaFields(stores[tableName]);
     }
+    return schema;
+  }
 
-    // Apply selector filter
-    if (selector) {
-      results = results.filter(doc => {
-        return Object.keys(selector).every(key => {
-          const value = selector[key];
-          
-          if (key === 'brandIds' && value.$elemMatch !== undefined) {
-            // Handle $elemMatch for array fields
-            return Array.isArray(doc[key]) && doc[key].includes(value.$elemMatch);
-          }
-          
-          return doc[key] === value;
-        });
-      });
+  async backup(): Promise<Record<string, any[]>> {
+    const backup: Record<string, any[]> = {};
+    for (const tableName of tableNames) {
+      backup[tableName] = await (this as any)[tableName].toArray();
     }
+    return backup;
+  }
 
-    // Apply sorting
-    if (sort && Array.isArray(sort)) {
-      results.sort((a, b) => {
-        for (const sortField of sort) {
-          const fieldName = Object.keys(sortField)[0];
-          const direction = sortField[fieldName];
-          
-          const aVal = a[fieldName];
-          const bVal = b[fieldName];
-          
-          let comparison = 0;
-          if (aVal < bVal) comparison = -1;
-          else if (aVal > bVal) comparison = 1;
-          
-          if (direction === 'desc') comparison *= -1;
-          
-          if (comparison !== 0) return comparison;
-        }
-        return 0;
-      });
-    }
+  async find<T = any>(options: PouchDBFindOptions): Promise<PouchDBFindResult<T>> {
+    const normalized = normalizeSelector(options.selector);
+    const results: any[] = [];
 
-    // Apply limit
-    if (limit) {
-      results = results.slice(0, limit);
+    for (const table of this.tables) {
+      for (const doc of await table.toArray()) {
+        if (matchesSelector(doc, normalized)) results.push(doc);
+      }
     }
 
-    return { docs: results };
+    return { docs: applyFindOptions(results, options) };
   }
 }
-
-export const db = new SimpleDatabase();
\ No newline at end of file
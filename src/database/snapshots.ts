@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { allTableNames } from './schema.js';
+import type { TableData } from './migrations.js';
+import { reviveDates } from '../utils/json.js';
+
+export interface TableState {
+  tables: TableData;
+  sequences: Record<string, number>;
+}
+
+export interface Snapshot extends TableState {
+  name: string;
+  description?: string;
+  createdAt: Date;
+}
+
+export interface FieldChange {
+  from: any;
+  to: any;
+}
+
+export interface TableDiff {
+  added: number[];
+  removed: number[];
+  changed: Array<{ id: number; fields: Record<string, FieldChange> }>;
+}
+
+// Fields the backend manages itself and that never count as a difference
+const INTERNAL_FIELDS = new Set(['_id', '_rev', 'type']);
+
+const sameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+// Copy every table, the server's own Trash included, together with its id counter
+export async function captureTables(db: TypedFedSimDatabase, tables: string[] = allTableNames): Promise<TableState> {
+  const state: TableState = { tables: {}, sequences: {} };
+  for (const table of tables) {
+    const tableRef = (db as any)[table];
+    if (!tableRef) continue;
+    state.tables[table] = structuredClone(await tableRef.toArray());
+    state.sequences[table] = await tableRef.getSequence();
+  }
+  return state;
+}
+
+function diffRecord(from: Record<string, any>, to: Record<string, any>): Record<string, FieldChange> {
+  const fields: Record<string, FieldChange> = {};
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (INTERNAL_FIELDS.has(field) || sameValue(from[field], to[field])) continue;
+    fields[field] = { from: from[field], to: to[field] };
+  }
+  return fields;
+}
+
+/**
+ * What it takes to turn `from` into `to`, per table. Only tables with at least
+ * one difference are listed.
+ */
+export function diffTables(from: TableData, to: TableData): Record<string, TableDiff> {
+  const diff: Record<string, TableDiff> = {};
+  for (const table of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    const before = new Map((from[table] || []).map(record => [record.id, record]));
+    const after = new Map((to[table] || []).map(record => [record.id, record]));
+    const tableDiff: TableDiff = {
+      added: [...after.keys()].filter(id => !before.has(id)),
+      removed: [...before.keys()].filter(id => !after.has(id)),
+      changed: [],
+    };
+    for (const [id, record] of after) {
+      if (!before.has(id)) continue;
+      const fields = diffRecord(before.get(id), record);
+      if (Object.keys(fields).length > 0) tableDiff.changed.push({ id, fields });
+    }
+    if (tableDiff.added.length || tableDiff.removed.length || tableDiff.changed.length) {
+      diff[table] = tableDiff;
+    }
+  }
+  return diff;
+}
+
+export function summarizeDiff(diff: Record<string, TableDiff>) {
+  return Object.values(diff).reduce(
+    (totals, tableDiff) => ({
+      added: totals.added + tableDiff.added.length,
+      removed: totals.removed + tableDiff.removed.length,
+      changed: totals.changed + tableDiff.changed.length,
+    }),
+    { added: 0, removed: 0, changed: 0 }
+  );
+}
+
+/**
+ * Write a diff to the database in one transaction, taking added and changed
+ * records from `target`. Tables missing from `db`, or from `target` when
+ * records are to be taken from it, fail the whole diff before anything is written.
+ * Id counters only ever move forward, so ids handed out since are never reused.
+ */
+export async function applyDiff(db: TypedFedSimDatabase, diff: Record<string, TableDiff>, target: TableState): Promise<void> {
+  for (const [table, tableDiff] of Object.entries(diff)) {
+    if (!(db as any)[table]) {
+      throw new Error(`Table '${table}' not found`);
+    }
+    if (!target.tables[table] && (tableDiff.added.length > 0 || tableDiff.changed.length > 0)) {
+      throw new Error(`Snapshot does not contain table '${table}'`);
+    }
+  }
+
+  await db.transaction(async () => {
+    for (const [table, tableDiff] of Object.entries(diff)) {
+      const tableRef = (db as any)[table];
+      const records = new Map((target.tables[table] ?? []).map(record => [record.id, record]));
+
+      for (const id of tableDiff.removed) {
+        await tableRef.delete(id);
+      }
+      for (const id of [...tableDiff.added, ...tableDiff.changed.map(change => change.id)]) {
+        const { _id, _rev, type, ...record } = records.get(id);
+        await tableRef.put(record);
+      }
+    }
+
+    for (const [table, sequence] of Object.entries(target.sequences)) {
+      const tableRef = (db as any)[table];
+      if (tableRef) await tableRef.setSequence(Math.max(sequence, await tableRef.getSequence()));
+    }
+  });
+}
+
+const SNAPSHOT_NAME = /^[\w.-]+$/;
+
+/**
+ * Named snapshots of the whole universe. Kept in memory, and also written to
+ * `<dir>/<name>.json` when a directory is given so they survive restarts.
+ */
+export class SnapshotStore {
+  private snapshots = new Map<string, Snapshot>();
+
+  constructor(private readonly dir?: string) {}
+
+  async open(): Promise<void> {
+    if (!this.dir) return;
+    await fs.mkdir(this.dir, { recursive: true });
+    for (const file of await fs.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const snapshot: Snapshot = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8'), reviveDates);
+      this.snapshots.set(snapshot.name, snapshot);
+    }
+  }
+
+  list(): Snapshot[] {
+    return [...this.snapshots.values()].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  get(name: string): Snapshot {
+    const snapshot = this.snapshots.get(name);
+    if (!snapshot) {
+      throw new Error(`Snapshot '${name}' not found`);
+    }
+    return snapshot;
+  }
+
+  has(name: string): boolean {
+    return this.snapshots.has(name);
+  }
+
+  async save(snapshot: Snapshot): Promise<void> {
+    if (!SNAPSHOT_NAME.test(snapshot.name)) {
+      throw new Error(`Invalid snapshot name '${snapshot.name}': use letters, digits, '-', '_' and '.'`);
+    }
+    if (this.dir) {
+      // Temp file + rename, as FileStore does, so a crash never leaves half a snapshot
+      const target = path.join(this.dir, `${snapshot.name}.json`);
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(snapshot));
+      await fs.rename(temp, target);
+    }
+    this.snapshots.set(snapshot.name, snapshot);
+  }
+}
@@ -0,0 +1,288 @@
+import Database from 'better-sqlite3';
+import type { Wrestler, Brand, Company, Production } from './db.js';
+import type { PouchDBFindResult, PouchDBFindOptions, DatabaseTable, TypedFedSimDatabase } from '../types/database.js';
+import { Groups, InternalGroups, parseSchemaFields, parseCompoundIndexes } from './schema.js';
+import { assertValidRecord, isArrayField } from './validation.js';
+import { nextRevision, assertRevision, type UpdateOptions } from './revisions.js';
+import { runTransaction } from './transactions.js';
+import { matchesSelector, normalizeSelector, applyFindOptions, type MangoSelector } from './mango.js';
+import { QueryableTable } from './collection.js';
+import { reviveDates } from '../utils/json.js';
+
+interface SqlFilter {
+  clauses: string[];
+  params: unknown[];
+}
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+// Column value for a field: arrays and objects as JSON text, dates as ISO strings
+function toColumn(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+const isScalar = (value: unknown) => typeof value === 'number' || typeof value === 'string';
+
+/**
+ * Rows are stored as a JSON `doc` plus one column per schema field. The columns
+ * exist for indexing: a query narrows rows with SQL first, then every candidate
+ * is checked with the Mango matcher, so results are identical to the other backends.
+ */
+class SQLiteTable<T extends { _id?: string; _rev?: string; id?: number; type: string }> extends QueryableTable<T> implements DatabaseTable<T> {
+  private readonly columns: string[];
+  private readonly arrayColumns: Set<string>;
+  private readonly insert: Database.Statement;
+
+  constructor(private db: Database.Database, private docType: string, params: string) {
+    super();
+    this.columns = parseSchemaFields(params).filter(field => field !== 'id');
+    this.arrayColumns = new Set(this.columns.filter(field => isArrayField(docType, field)));
+    this.createTable(params);
+
+    const names = ['id', 'doc', ...this.columns];
+    this.insert = db.prepare(`INSERT OR REPLACE INTO ${quote(docType)} (${names.map(quote).join(', ')}) VALUES (${names.map(() => '?').join(', ')})`);
+  }
+
+  private createTable(params: string): void {
+    const table = quote(this.docType);
+    // Scalar columns are untyped so SQLite keeps numbers and strings as given
+    const columns = this.columns.map(field => this.arrayColumns.has(field) ? `${quote(field)} TEXT` : quote(field));
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id INTEGER PRIMARY KEY, doc TEXT NOT NULL${columns.map(c => `, ${c}`).join('')})`);
+    this.addMissingColumns();
+
+    for (const field of this.columns.filter(field => !this.arrayColumns.has(field))) {
+      this.db.exec(`CREATE INDEX IF NOT EXISTS ${quote(`${this.docType}_${field}`)} ON ${table} (${quote(field)})`);
+    }
+    for (const fields of parseCompoundIndexes(params)) {
+      this.db.exec(`CREATE INDEX IF NOT EXISTS ${quote(`${this.docType}_${fields.join('_')}`)} ON ${table} (${fields.map(quote).join(', ')})`);
+    }
+  }
+
+  // Files written before a schema change lack the new fields' columns; add them and fill them from `doc`
+  private addMissingColumns(): void {
+    const table = quote(this.docType);
+    const existing = new Set((this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name));
+    const missing = this.columns.filter(field => !existing.has(field));
+    if (missing.length === 0) return;
+
+    this.db.transaction(() => {
+      for (const field of missing) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${this.arrayColumns.has(field) ? `${quote(field)} TEXT` : quote(field)}`);
+        // json_extract gives booleans as 1/0 and arrays and objects as JSON text, the same values toColumn() writes
+        this.db.prepare(`UPDATE ${table} SET ${quote(field)} = json_extract(doc, ?)`).run(`$.${JSON.stringify(field)}`);
+      }
+    })();
+  }
+
+  private parse(row: { doc: string } | undefined): T | undefined {
+    return row ? JSON.parse(row.doc, reviveDates) : undefined;
+  }
+
+  private write(doc: T & { id: number }): void {
+    this.insert.run(doc.id, JSON.stringify(doc), ...this.columns.map(field => toColumn((doc as any)[field])));
+  }
+
+  private highestId(): number {
+    const row = this.db.prepare(`SELECT MAX(id) AS id FROM ${quote(this.docType)}`).get() as { id: number | null };
+    return row.id ?? 0;
+  }
+
+  // Next id that add() will hand out
+  async getSequence(): Promise<number> {
+    const row = this.db.prepare('SELECT next FROM _sequences WHERE name = ?').get(this.docType) as { next: number } | undefined;
+    return Math.max(row?.next ?? 1, this.highestId() + 1);
+  }
+
+  // Restore a saved counter, never dropping below an id that is still in use
+  async setSequence(next: number): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO _sequences (name, next) VALUES (?, ?)')
+      .run(this.docType, Math.max(next, this.highestId() + 1));
+  }
+
+  async add(item: Omit<T, '_id' | 'id' | 'type'>): Promise<number> {
+    assertValidRecord(this.docType, item);
+    const insert = this.db.transaction(() => {
+      const row = this.db.prepare('SELECT next FROM _sequences WHERE name = ?').get(this.docType) as { next: number } | undefined;
+      const id = Math.max(row?.next ?? 1, this.highestId() + 1);
+      this.write({ ...item, _id: `${this.docType.toLowerCase()}:${id}`, _rev: nextRevision(), id, type: this.docType } as T & { id: number });
+      this.db.prepare('INSERT OR REPLACE INTO _sequences (name, next) VALUES (?, ?)').run(this.docType, id + 1);
+      return id;
+    });
+    return insert();
+  }
+
+  // Insert or replace a record, keeping the id it already carries
+  async put(item: Omit<T, '_id' | 'type'> & { id: number }): Promise<number> {
+    assertValidRecord(this.docType, item);
+    const _rev = nextRevision(this.read(item.id)?._rev);
+    this.write({ ...item, _id: `${this.docType.toLowerCase()}:${item.id}`, _rev, type: this.docType } as unknown as T & { id: number });
+    return item.id;
+  }
+
+  private read(id: number): T | undefined {
+    return this.parse(this.db.prepare(`SELECT doc FROM ${quote(this.docType)} WHERE id = ?`).get(id) as { doc: string } | undefined);
+  }
+
+  async get(id: number): Promise<T | undefined> {
+    return this.read(id);
+  }
+
+  // Read, check and write happen synchronously, so no other call can slip in between
+  async update(id: number, updates: Partial<T>, options?: UpdateOptions): Promise<void> {
+    assertValidRecord(this.docType, updates);
+    const existing = this.read(id);
+    assertRevision(this.docType, id, existing, options);
+    this.write({ ...existing!, ...updates, _rev: nextRevision(existing!._rev) } as T & { id: number });
+  }
+
+  async delete(id: number): Promise<void> {
+    this.db.prepare(`DELETE FROM ${quote(this.docType)} WHERE id = ?`).run(id);
+  }
+
+  async count(): Promise<number> {
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM ${quote(this.docType)}`).get() as { count: number };
+    return row.count;
+  }
+
+  // Removes every row; the id counter in _sequences is kept, as Dexie's clear() does
+  async clear(): Promise<void> {
+    this.db.prepare(`DELETE FROM ${quote(this.docType)}`).run();
+  }
+
+  async toArray(): Promise<T[]> {
+    const rows = this.db.prepare(`SELECT doc FROM ${quote(this.docType)} ORDER BY id`).all() as Array<{ doc: string }>;
+    return rows.map(row => this.parse(row)!);
+  }
+
+  protected select(selector: MangoSelector): Promise<T[]> {
+    return this.query(selector);
+  }
+
+  // Rows matching a Mango selector; a `type` condition decides whether this table takes part at all
+  async query(selector: MangoSelector): Promise<T[]> {
+    const { type, ...normalized } = normalizeSelector(selector);
+    if (type !== undefined && !matchesSelector({ type: this.docType }, { type })) return [];
+
+    const filter: SqlFilter = { clauses: [], params: [] };
+    this.pushDown(normalized, filter);
+    const where = filter.clauses.length > 0 ? ` WHERE ${filter.clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT doc FROM ${quote(this.docType)}${where} ORDER BY id`)
+      .all(...filter.params) as Array<{ doc: string }>;
+
+    return rows.map(row => this.parse(row)!).filter(doc => matchesSelector(doc, normalized));
+  }
+
+  /**
+   * Translate the parts of a selector that map cleanly onto indexed columns.
+   * Every clause may match more rows than the selector does, never fewer;
+   * anything else is left to the in-memory matcher.
+   */
+  private pushDown(selector: MangoSelector, filter: SqlFilter): void {
+    for (const [field, condition] of Object.entries(selector)) {
+      if (field === '$and') {
+        condition.forEach((sub: MangoSelector) => this.pushDown(sub, filter));
+        continue;
+      }
+      if (!this.columns.includes(field)) continue;
+
+      const column = quote(field);
+      const conditions = typeof condition === 'object' && condition !== null && !Array.isArray(condition)
+        ? condition
+        : { $eq: condition };
+
+      for (const [operator, operand] of Object.entries(conditions)) {
+        if (this.arrayColumns.has(field)) {
+          const value = (operand as any)?.$eq;
+          if (operator === '$elemMatch' && isScalar(value) && Object.keys(operand as object).length === 1) {
+            filter.clauses.push(`EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END) WHERE value = ?)`);
+            filter.params.push(value);
+          }
+          continue;
+        }
+
+        if (operator === '$eq' && isScalar(operand)) {
+          filter.clauses.push(`${column} = ?`);
+          filter.params.push(operand);
+        } else if (operator === '$in' && Array.isArray(operand) && operand.length > 0 && operand.every(isScalar)) {
+          // $in also matches array values containing one of the candidates
+          filter.clauses.push(`(${column} IN (${operand.map(() => '?').join(', ')}) OR ${column} LIKE '[%')`);
+          filter.params.push(...operand);
+        } else if ((operator === '$gt' || operator === '$gte') && typeof operand === 'number') {
+          // Strings, arrays and objects sort above numbers in both SQLite and Mango
+          filter.clauses.push(`${column} ${operator === '$gt' ? '>' : '>='} ?`);
+          filter.params.push(operand);
+        } else if ((operator === '$lt' || operator === '$lte') && typeof operand === 'number') {
+          // Null and booleans sort below numbers in Mango, so keep every non-number for the matcher
+          filter.clauses.push(`(${column} ${operator === '$lt' ? '<' : '<='} ? OR typeof(${column}) NOT IN ('integer', 'real'))`);
+          filter.params.push(operand);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * SQLite storage with one table per schema.ts group. `filename` is a path
+ * or `:memory:`.
+ */
+export class SQLiteDatabase implements TypedFedSimDatabase {
+  private db: Database.Database;
+  private tables: SQLiteTable<any>[];
+  public Venue!: SQLiteTable<any>;
+  public Company!: SQLiteTable<Company>;
+  public Brand!: SQLiteTable<Brand>;
+  public Wrestler!: SQLiteTable<Wrestler>;
+  public Championship!: SQLiteTable<any>;
+  public Show!: SQLiteTable<any>;
+  public Bet!: SQLiteTable<any>;
+  public Production!: SQLiteTable<Production>;
+  public Segment!: SQLiteTable<any>;
+  public Appearance!: SQLiteTable<any>;
+  public Faction!: SQLiteTable<any>;
+  public Draft!: SQLiteTable<any>;
+  public Game!: SQLiteTable<any>;
+  public StorylineTemplate!: SQLiteTable<any>;
+  public ActiveStoryline!: SQLiteTable<any>;
+  public StorylineSegment!: SQLiteTable<any>;
+  public StorylineGoal!: SQLiteTable<any>;
+  public Reign!: SQLiteTable<any>;
+  public Rumble!: SQLiteTable<any>;
+  public Favourite!: SQLiteTable<any>;
+  public Notification!: SQLiteTable<any>;
+  public Trash!: SQLiteTable<any>;
+
+  constructor(filename = ':memory:') {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec('CREATE TABLE IF NOT EXISTS _sequences (name TEXT PRIMARY KEY, next INTEGER NOT NULL)');
+
+    this.tables = [...Groups, ...InternalGroups].map(({ group, params }) => {
+      const table = new SQLiteTable(this.db, group, params);
+      (this as any)[group] = table;
+      return table;
+    });
+  }
+
+  async find<T>(options: PouchDBFindOptions): Promise<PouchDBFindResult<T>> {
+    const docs: any[] = [];
+    for (const table of this.tables) {
+      docs.push(...await table.query(options.selector));
+    }
+    return { docs: applyFindOptions(docs, options) };
+  }
+
+  // All-or-nothing writes across tables, see transactions.ts
+  transaction<R>(fn: () => Promise<R>): Promise<R> {
+    return runTransaction(this, fn);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
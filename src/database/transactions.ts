@@ -0,0 +1,165 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { DatabaseTable } from '../types/database.js';
+import { allTableNames } from './schema.js';
+import { recordProvisionally, withoutJournal } from './journal.js';
+
+interface UndoEntry {
+  table: string;
+  id: number;
+  // null when the transaction created the record
+  before: Record<string, any> | null;
+  // Revision the transaction's last write left, null once it deleted the record
+  after: string | null;
+}
+
+/**
+ * Undo log of one transaction: the state of every record before its first
+ * write in the transaction, the revision its last write produced, and each
+ * table's id counter before its first add.
+ */
+class Transaction {
+  private undoLog: UndoEntry[] = [];
+  private touched = new Map<string, UndoEntry>();
+  private sequences = new Map<string, number>();
+
+  constructor(readonly db: any) {}
+
+  remember(table: string, id: number, before: Record<string, any> | null | undefined): void {
+    const key = `${table}:${id}`;
+    if (this.touched.has(key)) return;
+    // Until a write succeeds the record still carries the revision it had
+    const entry = { table, id, before: before ? structuredClone(before) : null, after: before?._rev ?? null };
+    this.touched.set(key, entry);
+    this.undoLog.push(entry);
+  }
+
+  // Note the revision a write left, so rollback can tell whether anyone wrote the record since
+  async written(table: string, id: number): Promise<void> {
+    const entry = this.touched.get(`${table}:${id}`);
+    if (entry) entry.after = (await this.db[table].get(id))?._rev ?? null;
+  }
+
+  async rememberSequence(table: string, tableRef: DatabaseTable<any>): Promise<void> {
+    if (!this.sequences.has(table)) {
+      this.sequences.set(table, await tableRef.getSequence());
+    }
+  }
+
+  // Put every record back the way it was, newest write first; returns what could not be restored
+  async rollback(): Promise<string[]> {
+    const failures: string[] = [];
+    for (const { table, id, before, after } of [...this.undoLog].reverse()) {
+      try {
+        // Another session wrote the record after this transaction did; putting it back would lose that write
+        if (((await this.db[table].get(id))?._rev ?? null) !== after) {
+          failures.push(`${table} ${id}: changed by another write since, left as it is`);
+          continue;
+        }
+        if (before) {
+          const { _id, _rev, type, ...record } = before;
+          await this.db[table].put(record);
+        } else {
+          await this.db[table].delete(id);
+        }
+      } catch (error) {
+        failures.push(`${table} ${id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    for (const [table, next] of this.sequences) {
+      await this.db[table].setSequence(next);
+    }
+    return failures;
+  }
+}
+
+const activeTransaction = new AsyncLocalStorage<Transaction>();
+const watched = new WeakSet<object>();
+
+// Wrap the write methods of every table so writes inside a transaction land in its undo log
+function watch(db: any): void {
+  if (watched.has(db)) return;
+  watched.add(db);
+
+  for (const name of allTableNames) {
+    const table: DatabaseTable<any> | undefined = db[name];
+    if (!table) continue;
+
+    const { add, put, update, delete: remove, clear } = table;
+    const current = () => {
+      const transaction = activeTransaction.getStore();
+      return transaction?.db === db ? transaction : undefined;
+    };
+
+    table.add = async item => {
+      const transaction = current();
+      await transaction?.rememberSequence(name, table);
+      const id = await add.call(table, item);
+      transaction?.remember(name, id, null);
+      await transaction?.written(name, id);
+      return id;
+    };
+    table.put = async item => {
+      const transaction = current();
+      if (transaction) {
+        await transaction.rememberSequence(name, table);
+        transaction.remember(name, item.id, await table.get(item.id));
+      }
+      const id = await put.call(table, item);
+      await transaction?.written(name, item.id);
+      return id;
+    };
+    table.update = async (id, updates, options) => {
+      const transaction = current();
+      const before = transaction && await table.get(id);
+      // Updating a missing record throws before anything is written
+      if (before) transaction!.remember(name, id, before);
+      await update.call(table, id, updates, options);
+      await transaction?.written(name, id);
+    };
+    table.delete = async id => {
+      const transaction = current();
+      const before = transaction && await table.get(id);
+      if (before) transaction!.remember(name, id, before);
+      await remove.call(table, id);
+      await transaction?.written(name, id);
+    };
+    table.clear = async () => {
+      const transaction = current();
+      const rows = transaction ? await table.toArray() : [];
+      for (const row of rows) {
+        transaction!.remember(name, row.id, row);
+      }
+      await clear.call(table);
+      for (const row of rows) {
+        await transaction!.written(name, row.id);
+      }
+    };
+  }
+}
+
+/**
+ * Run `fn` as one transaction across every table of `db`: if it throws, each
+ * record it wrote is put back as it was (with a new revision), records it added
+ * are removed and id counters are reset, then the error is rethrown. Records
+ * another write changed in the meantime are left alone and reported. The journal
+ * only records the writes of transactions that succeed. A transaction started
+ * inside another one on the same database joins it.
+ */
+export async function runTransaction<R>(db: any, fn: () => Promise<R>): Promise<R> {
+  if (activeTransaction.getStore()?.db === db) {
+    return fn();
+  }
+
+  watch(db);
+  const transaction = new Transaction(db);
+  try {
+    return await recordProvisionally(() => activeTransaction.run(transaction, fn));
+  } catch (error) {
+    const failures = await withoutJournal(() => transaction.rollback());
+    if (failures.length > 0) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${message}; rolling back also failed for ${failures.join('; ')}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,137 @@
+import { deleteWithRelations, relations as defaultRelations, type Relation, type RecordRef, type DeleteReport } from './relations.js';
+
+export interface TrashEntry {
+  id?: number;
+  // The record that was deleted
+  table: string;
+  recordId: number;
+  name?: string;
+  deletedAt: Date;
+  // That record followed by everything deleted along with it, as they were
+  records: Array<{ table: string; record: Record<string, any> }>;
+  // References the delete cleared in surviving records: the old value and the ids taken out of it
+  references: Array<RecordRef & { field: string; value: any; cleared: number[] }>;
+}
+
+export interface TrashOptions {
+  ids?: number[];
+  table?: string;
+}
+
+const withoutBookkeeping = ({ _id, _rev, type, ...record }: Record<string, any>) => record;
+
+const matches = (entry: TrashEntry, { ids, table }: TrashOptions) =>
+  (!ids || ids.includes(entry.id!)) && (!table || entry.table === table);
+
+/**
+ * Delete a record the way deleteWithRelations does and keep what was removed
+ * in the Trash table, so restoreFromTrash can bring it all back. Deleting a
+ * record that does not exist changes nothing and returns no entry.
+ */
+export async function moveToTrash(
+  db: any,
+  table: string,
+  id: number,
+  relationList: Relation[] = defaultRelations
+): Promise<{ report: DeleteReport; entry?: TrashEntry }> {
+  return db.transaction(async () => {
+    const record = await db[table].get(id);
+    const report = await deleteWithRelations(db, table, id, relationList);
+    if (!record) {
+      return { report };
+    }
+
+    const entry: TrashEntry = {
+      table,
+      recordId: id,
+      name: record.name,
+      deletedAt: new Date(),
+      records: [
+        { table, record: withoutBookkeeping(record) },
+        ...report.removed
+          .filter(removed => !(removed.table === table && removed.record.id === id))
+          .map(removed => ({ table: removed.table, record: withoutBookkeeping(removed.record) })),
+      ],
+      references: report.previous.map(reference => {
+        const target = relationList.find(relation => relation.table === reference.table && relation.field === reference.field)!;
+        const deletedIds = report.deleted.filter(ref => ref.table === target.references).map(ref => ref.id);
+        const oldIds: number[] = Array.isArray(reference.value) ? reference.value : [reference.value];
+        return { ...reference, cleared: oldIds.filter(refId => deletedIds.includes(refId)) };
+      }),
+    };
+    entry.id = await db.Trash.add(structuredClone(entry));
+    return { report, entry };
+  });
+}
+
+// Newest deletes first
+export async function listTrash(db: any, options: TrashOptions = {}): Promise<TrashEntry[]> {
+  const entries: TrashEntry[] = await db.Trash.toArray();
+  return entries.filter(entry => matches(entry, options)).sort((a, b) => b.id! - a.id!);
+}
+
+// The value a cleared reference gets back: the old one, keeping whatever was set since
+function relink(previous: any, current: any, cleared: number[]): any {
+  if (!Array.isArray(previous)) {
+    return current ?? previous;
+  }
+  const now: number[] = Array.isArray(current) ? current : [];
+  return [
+    ...previous.filter(refId => cleared.includes(refId) || now.includes(refId)),
+    ...now.filter(refId => !previous.includes(refId)),
+  ];
+}
+
+/**
+ * Put a trashed record, the records deleted with it and the references to
+ * them back, then drop the trash entry. Fails without changing anything if
+ * one of the ids has been taken since. References from records that were
+ * deleted in the meantime stay gone.
+ */
+export async function restoreFromTrash(db: any, trashId: number): Promise<{
+  restored: RecordRef[];
+  relinked: Array<RecordRef & { field: string }>;
+}> {
+  return db.transaction(async () => {
+    const entry: TrashEntry | undefined = await db.Trash.get(trashId);
+    if (!entry) {
+      throw new Error(`Trash entry ${trashId} not found`);
+    }
+
+    for (const { table, record } of entry.records) {
+      if (await db[table].get(record.id)) {
+        throw new Error(`Cannot restore ${entry.table} ${entry.recordId}: ${table} ${record.id} already exists`);
+      }
+    }
+
+    for (const { table, record } of entry.records) {
+      await db[table].put(record);
+    }
+
+    const relinked: Array<RecordRef & { field: string }> = [];
+    for (const { table, id, field, value, cleared } of entry.references) {
+      const current = await db[table].get(id);
+      if (!current) continue;
+      await db[table].update(id, { [field]: relink(value, current[field], cleared) });
+      relinked.push({ table, id, field });
+    }
+
+    await db.Trash.delete(trashId);
+    return {
+      restored: entry.records.map(({ table, record }) => ({ table, id: record.id as number })),
+      relinked,
+    };
+  });
+}
+
+// Permanently drop trash entries, all of them unless narrowed down
+export async function emptyTrash(db: any, options: TrashOptions = {}): Promise<number[]> {
+  return db.transaction(async () => {
+    const removed: number[] = [];
+    for (const entry of await listTrash(db, options)) {
+      await db.Trash.delete(entry.id);
+      removed.push(entry.id!);
+    }
+    return removed;
+  });
+}
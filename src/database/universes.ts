@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { createDatabase } from './backends.js';
+import { Journal } from './journal.js';
+import { SnapshotStore } from './snapshots.js';
+
+export const DEFAULT_UNIVERSE = 'default';
+
+// Names become directory names, so `.` and `..` must never pass
+const UNIVERSE_NAME = /^[\w-][\w.-]*$/;
+
+export interface Universe {
+  name: string;
+  db: TypedFedSimDatabase;
+  journal: Journal;
+  snapshots: SnapshotStore;
+  // Where the universe keeps its data, when the server has a data directory
+  dataDir?: string;
+}
+
+export interface UniverseManagerOptions {
+  backend: string;
+  dataDir?: string;
+}
+
+/**
+ * The universes (save slots) one server holds. Each has its own database,
+ * journal and snapshots, so tables and id counters never mix. The default
+ * universe lives in the data directory itself, any others in
+ * `<dataDir>/universes/<name>`.
+ */
+export class UniverseManager {
+  private universes = new Map<string, Universe>();
+  private currentName = DEFAULT_UNIVERSE;
+  // In-memory PouchDB databases are shared per process by name, so each universe gets a fresh one
+  private opened = 0;
+
+  constructor(private options: UniverseManagerOptions) {}
+
+  private universeDir(name: string): string | undefined {
+    const { dataDir } = this.options;
+    if (!dataDir) return undefined;
+    if (name === DEFAULT_UNIVERSE) return dataDir;
+
+    const universesDir = path.resolve(dataDir, 'universes');
+    const dir = path.resolve(universesDir, name);
+    if (path.dirname(dir) !== universesDir) {
+      throw new Error(`Universe '${name}' would be stored outside ${universesDir}`);
+    }
+    return dir;
+  }
+
+  // Open the default universe and every universe already saved in the data directory
+  async open(): Promise<void> {
+    await this.load(DEFAULT_UNIVERSE);
+    if (!this.options.dataDir) return;
+
+    const entries = await fs.readdir(path.join(this.options.dataDir, 'universes'), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.isDirectory() && UNIVERSE_NAME.test(entry.name)) {
+        await this.load(entry.name);
+      }
+    }
+  }
+
+  private async load(name: string): Promise<Universe> {
+    const dataDir = this.universeDir(name);
+    const db = await createDatabase(this.options.backend, {
+      dataDir,
+      name: name === DEFAULT_UNIVERSE ? undefined : `fedsim-universe-${name}-${++this.opened}`,
+    });
+    const journal = new Journal(db, dataDir ? path.join(dataDir, 'journal.jsonl') : undefined);
+    await journal.open();
+    const snapshots = new SnapshotStore(dataDir ? path.join(dataDir, 'snapshots') : undefined);
+    await snapshots.open();
+
+    const universe: Universe = { name, db, journal, snapshots, dataDir };
+    this.universes.set(name, universe);
+    return universe;
+  }
+
+  current(): Universe {
+    return this.universes.get(this.currentName)!;
+  }
+
+  list(): Universe[] {
+    return [...this.universes.values()];
+  }
+
+  get(name: string): Universe {
+    const universe = this.universes.get(name);
+    if (!universe) {
+      throw new Error(`Universe '${name}' not found. Available universes: ${[...this.universes.keys()].join(', ')}`);
+    }
+    return universe;
+  }
+
+  async create(name: string): Promise<Universe> {
+    if (!UNIVERSE_NAME.test(name)) {
+      throw new Error(`Invalid universe name '${name}': use letters, digits, '-', '_' and '.', not starting with '.'`);
+    }
+    if (this.universes.has(name)) {
+      throw new Error(`Universe '${name}' already exists`);
+    }
+    return this.load(name);
+  }
+
+  switch(name: string): Universe {
+    const universe = this.get(name);
+    this.currentName = name;
+    return universe;
+  }
+
+  // Remove a universe and everything stored for it; the current and default universes stay
+  async delete(name: string): Promise<void> {
+    const universe = this.get(name);
+    if (name === DEFAULT_UNIVERSE) {
+      throw new Error('The default universe cannot be deleted');
+    }
+    if (name === this.currentName) {
+      throw new Error(`Universe '${name}' is the current universe; switch to another one first`);
+    }
+
+    await universe.journal.flush();
+    if (universe.dataDir) {
+      // Checked again right before removing anything, whatever name the universe was loaded under
+      const dir = this.universeDir(name)!;
+      await universe.db.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    } else if (universe.db.delete) {
+      // In-memory PouchDB databases live on in the process until they are destroyed
+      await universe.db.delete();
+    } else {
+      await universe.db.close();
+    }
+    this.universes.delete(name);
+  }
+
+  async close(): Promise<void> {
+    for (const universe of this.universes.values()) {
+      await universe.journal.flush();
+      await universe.db.close();
+    }
+  }
+}
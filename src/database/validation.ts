@@ -0,0 +1,153 @@
+import { allStores, parseSchemaFields } from './schema.js';
+import { ValidationError, type FieldError } from './errors.js';
+
+type FieldRule =
+  | { kind: 'number'; min?: number; max?: number; nullable?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'date' }
+  | { kind: 'enum'; values: string[] }
+  | { kind: 'idArray' }
+  | { kind: 'array' };
+
+// Bookkeeping fields every backend adds to a document
+const INTERNAL_FIELDS = ['_id', '_rev', 'id', 'type'];
+
+// Fields stored on records that the Dexie schema does not index
+const EXTRA_FIELDS: Record<string, string[]> = {
+  Segment: ['desc'],
+};
+
+export const STAT_MIN = 0;
+export const STAT_MAX = 100;
+
+// Wrestler stats kept between STAT_MIN and STAT_MAX
+export const statFields = ['points', 'morale', 'stamina', 'popularity', 'charisma', 'damage'];
+
+const STAT_RULE: FieldRule = { kind: 'number', min: STAT_MIN, max: STAT_MAX };
+
+// Domain rules that only apply to one table
+const TABLE_RULES: Record<string, Record<string, FieldRule>> = {
+  Wrestler: {
+    alignment: { kind: 'enum', values: ['FACE', 'HEEL', 'NEUTRAL'] },
+    gender: { kind: 'enum', values: ['MALE', 'FEMALE'] },
+    contractType: { kind: 'enum', values: ['FULL', 'PART', 'APPEARANCE'] },
+    ...Object.fromEntries(statFields.map(field => [field, STAT_RULE])),
+  },
+};
+
+// Rules that apply to a field name wherever it appears
+const FIELD_RULES: Record<string, FieldRule> = {
+  images: { kind: 'array' },
+  date: { kind: 'date' },
+  dob: { kind: 'date' },
+  contractExpires: { kind: 'date' },
+  startDate: { kind: 'date' },
+  endDate: { kind: 'date' },
+  active: { kind: 'boolean' },
+  retired: { kind: 'boolean' },
+  pushed: { kind: 'boolean' },
+  complete: { kind: 'boolean' },
+  winner: { kind: 'boolean' },
+  loser: { kind: 'boolean' },
+  draw: { kind: 'boolean' },
+  manager: { kind: 'boolean' },
+};
+
+for (const field of [
+  'balance', 'cost', 'capacity', 'height', 'weight', 'followers', 'wins', 'losses', 'draws', 'streak',
+  'remainingAppearances', 'totalReigns', 'wrestlersCost', 'segmentsCost', 'merchIncome',
+  'attendanceIncome', 'attendance', 'viewers', 'step', 'duration', 'rating', 'amount', 'defenses',
+]) {
+  FIELD_RULES[field] = { kind: 'number' };
+}
+
+function ruleFor(table: string, field: string): FieldRule | undefined {
+  const rule = TABLE_RULES[table]?.[field] ?? FIELD_RULES[field];
+  if (rule) return rule;
+  if (field.endsWith('Ids')) return { kind: 'idArray' };
+  if (field.endsWith('Id')) return { kind: 'number', nullable: true };
+  return undefined;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return typeof value;
+  return String(value);
+}
+
+function checkField(rule: FieldRule, value: unknown): string | null {
+  switch (rule.kind) {
+    case 'number':
+      if (value === null && rule.nullable) return null;
+      if (typeof value !== 'number' || Number.isNaN(value)) return `must be a number (got ${describe(value)})`;
+      if (rule.min !== undefined && rule.max !== undefined && (value < rule.min || value > rule.max)) {
+        return `must be between ${rule.min} and ${rule.max} (got ${value})`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `must be true or false (got ${describe(value)})`;
+    case 'date':
+      if (value === null || value instanceof Date) return null;
+      if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return null;
+      return `must be a date (got ${describe(value)})`;
+    case 'enum':
+      return rule.values.includes(value as string) ? null : `must be one of ${rule.values.join(', ')} (got ${describe(value)})`;
+    case 'idArray':
+      if (!Array.isArray(value)) return `must be an array of ids (got ${describe(value)})`;
+      return value.every(id => typeof id === 'number') ? null : 'must only contain numeric ids';
+    case 'array':
+      return Array.isArray(value) ? null : `must be an array (got ${describe(value)})`;
+  }
+}
+
+/**
+ * Check a record against the schema.ts field list for its table plus the domain rules above.
+ * Tables without a schema entry only get the type checks.
+ */
+export function validateRecord(table: string, record: Record<string, any>): FieldError[] {
+  const schemaFields = allStores[table] ? parseSchemaFields(allStores[table]) : null;
+  const errors: FieldError[] = [];
+
+  for (const [field, value] of Object.entries(record)) {
+    if (INTERNAL_FIELDS.includes(field) || value === undefined) continue;
+
+    if (schemaFields && !schemaFields.includes(field) && !EXTRA_FIELDS[table]?.includes(field)) {
+      errors.push({ field, message: `is not a field of ${table}` });
+      continue;
+    }
+
+    const rule = ruleFor(table, field);
+    const message = rule && checkField(rule, value);
+    if (message) {
+      errors.push({ field, message });
+    }
+  }
+
+  return errors;
+}
+
+export function assertValidRecord(table: string, record: Record<string, any>): void {
+  const errors = validateRecord(table, record);
+  if (errors.length > 0) {
+    throw new ValidationError(table, errors);
+  }
+}
+
+// The kind of value a field holds according to the rules above, used to convert text input
+export function fieldKind(table: string, field: string): FieldRule['kind'] | undefined {
+  return ruleFor(table, field)?.kind;
+}
+
+// Whether a field holds an array (ids or otherwise) according to the rules above
+export function isArrayField(table: string, field: string): boolean {
+  const kind = fieldKind(table, field);
+  return kind === 'idArray' || kind === 'array';
+}
+
+// Known fields for a table, used to drop unrecognised columns from foreign data
+export function knownFields(table: string): string[] | null {
+  if (!allStores[table]) return null;
+  return [...INTERNAL_FIELDS, ...parseSchemaFields(allStores[table]), ...(EXTRA_FIELDS[table] || [])];
+}
@@ -2,58 +2,146 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import chalk from 'chalk';
+import { loadServerConfig, type ServerConfig } from './utils/config.js';
+import { recordChanges, type JournalEntry } from './database/journal.js';
+import type { Universe, UniverseManager } from './database/universes.js';
+import { createResources, changedResources, ResourceNotFoundError } from './resources/resources.js';
+import { createPrompts } from './prompts/prompts.js';
+import { validateArguments } from './utils/json-schema.js';
 
-const server = new Server(
-  {
-    name: 'fedsimulator-mcp',
-    version: '1.0.19',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+let db: any;
+let universes: UniverseManager;
+let universeTools: Map<string, any> = new Map();
+let createToolset: (universe: Universe) => Map<string, any>;
+const toolsets = new WeakMap<Universe, Map<string, any>>();
+const resourceSets = new WeakMap<Universe, ReturnType<typeof createResources>>();
+const promptSets = new WeakMap<Universe, ReturnType<typeof createPrompts>>();
+// Connected servers (the stdio one, or one per HTTP session) and the resource URIs each client subscribed to
+const sessions = new Map<Server, Set<string>>();
+
+// Every tool works on the current universe; each universe gets its own tool instances
+function currentTools(): Map<string, any> {
+  const universe = universes.current();
+  let tools = toolsets.get(universe);
+  if (!tools) {
+    tools = createToolset(universe);
+    toolsets.set(universe, tools);
+    // Every write goes through a tool of the current universe, so this is the first moment one can happen
+    universe.journal.onChange(changes => {
+      if (universe === universes.current()) void notifyResourceChanges(changes);
+    });
   }
-);
+  return new Map([...tools, ...universeTools]);
+}
 
-let db: any;
-let allTools: Map<string, any> = new Map();
+// Resources, like tools, always show the current universe
+function currentResources(): ReturnType<typeof createResources> {
+  const universe = universes.current();
+  let resources = resourceSets.get(universe);
+  if (!resources) {
+    resources = createResources(universe.db);
+    resourceSets.set(universe, resources);
+  }
+  return resources;
+}
+
+// Prompts are filled from the current universe too
+function currentPrompts(): ReturnType<typeof createPrompts> {
+  const universe = universes.current();
+  let prompts = promptSets.get(universe);
+  if (!prompts) {
+    prompts = createPrompts(universe.db);
+    promptSets.set(universe, prompts);
+  }
+  return prompts;
+}
+
+// Tell every client which of its subscribed resources a write changed, and whether the resource list did
+async function notifyResourceChanges(changes: JournalEntry[] | 'all'): Promise<void> {
+  const changed = changes === 'all' ? undefined : changedResources(changes);
+  for (const [server, subscriptions] of sessions) {
+    const uris = changed ? changed.uris.filter(uri => subscriptions.has(uri)) : [...subscriptions];
+    try {
+      for (const uri of uris) {
+        await server.sendResourceUpdated({ uri });
+      }
+      if (changed?.listChanged ?? true) {
+        await server.sendResourceListChanged();
+      }
+    } catch (error) {
+      // The client went away; its session is cleaned up when the transport closes
+      if (!isMcpMode) {
+        console.error(chalk.gray(`   Resource notifications skipped: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }
+  }
+}
 
 // Check if running as MCP server (detect stdio mode)
 const isMcpMode = !process.stdout.isTTY || 
   process.argv[1]?.includes('npx') || 
   process.argv[1]?.includes('fedsimulator-mcp');
 
-async function initializeServer() {
+// Exported so tests can set the server up in-process without starting a transport
+export async function initializeServer(): Promise<ServerConfig> {
   if (!isMcpMode) {
     console.error(chalk.blue('🏟️  Initializing Fed Simulator MCP Server...'));
   }
   try {
-    // Import simple DB and tool creators
-    const { db: database } = await import('./database/simple-db.js');
+    // Import the backend registry and tool creators
+    const { getBackend, resolveBackendName } = await import('./database/backends.js');
+    const { UniverseManager } = await import('./database/universes.js');
     const { createWrestlerTools } = await import('./tools/wrestler-tools.js');
     const { createBrandTools } = await import('./tools/brand-tools.js');
     const { createProductionTools } = await import('./tools/production-tools.js');
     const { createGeneralTools } = await import('./tools/general-tools.js');
+    const { createHistoryTools } = await import('./tools/history-tools.js');
+    const { createSnapshotTools } = await import('./tools/snapshot-tools.js');
+    const { createCsvTools } = await import('./tools/csv-tools.js');
+    const { createIntegrityTools } = await import('./tools/integrity-tools.js');
+    const { createTrashTools } = await import('./tools/trash-tools.js');
+    const { createUniverseTools } = await import('./tools/universe-tools.js');
+
+    const config = await loadServerConfig();
+    const { backend: requestedBackend, dataDir } = config;
+    const backend = resolveBackendName(requestedBackend, dataDir);
+    // Each universe has its own database, audit journal and snapshots next to its data
+    universes = new UniverseManager({ backend, dataDir });
+    await universes.open();
 
-    db = database;
     if (!isMcpMode) {
-      console.error(chalk.green('✅ Database initialized'));
+      console.error(chalk.green(getBackend(backend)?.requiresDataDir
+        ? `✅ Database initialized (${backend}, persisting to ${dataDir})`
+        : `✅ Database initialized (${backend}, in-memory)`));
     }
-    const wrestlerTools = createWrestlerTools(db);
-    const brandTools = createBrandTools(db);
-    const productionTools = createProductionTools(db);
-    const generalTools = createGeneralTools(db);
-    for (const [key, value] of wrestlerTools) allTools.set(key, value);
-    for (const [key, value] of brandTools) allTools.set(key, value);
-    for (const [key, value] of productionTools) allTools.set(key, value);
-    for (const [key, value] of generalTools) allTools.set(key, value);
+    createToolset = universe => new Map<string, any>([
+      ...createWrestlerTools(universe.db),
+      ...createBrandTools(universe.db),
+      ...createProductionTools(universe.db),
+      ...createGeneralTools(universe.db),
+      ...createHistoryTools(universe.journal),
+      ...createSnapshotTools(universe.db, universe.snapshots),
+      ...createCsvTools(universe.db),
+      ...createIntegrityTools(universe.db),
+      ...createTrashTools(universe.db),
+    ]);
+    universeTools = createUniverseTools(universes, { openSessions: () => sessions.size });
+    const allTools = currentTools();
     
     if (!isMcpMode) {
       console.error(chalk.green(`✅ Loaded ${allTools.size} tools`));
@@ -64,57 +152,148 @@ async function initializeServer() {
       }
       console.error('');
     }
+    return config;
   } catch (error) {
     console.error(chalk.red('❌ Failed to initialize server:'), error);
     process.exit(1);
   }
 }
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  const tools = Array.from(allTools.values()).map(tool => ({
-    name: tool.name,
-    description: tool.description,
-    inputSchema: tool.inputSchema,
-  }));
-  return { tools };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const tool = allTools.get(name);
-  if (!tool) {
-    throw new McpError(
-      ErrorCode.MethodNotFound,
-      `Tool '${name}' not found`
-    );
-  }
-  try {
-    if (!isMcpMode) {
-      console.error(chalk.cyan(`🔧 Executing: ${name}`));
-      console.error(chalk.gray(`   Args: ${JSON.stringify(args, null, 2)}`));
+// One MCP server per connection; all of them work on the same universes
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'fedsimulator-mcp',
+      version: '1.0.19',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
     }
-    const result = await tool.handler(args);
-    if (!isMcpMode) {
-      console.error(chalk.green(`✅ ${name} completed successfully`));
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const tools = Array.from(currentTools().values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }));
+    return { tools };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const tool = currentTools().get(name);
+    if (!tool) {
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Tool '${name}' not found`
+      );
     }
-    return {
-      content: [
-        {
-          type: 'text',
-          text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error) {
-    if (!isMcpMode) {
-      console.error(chalk.red(`❌ Error executing ${name}:`), error);
+    const validated = validateArguments(tool.inputSchema, args);
+    if (validated.errors.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for ${name}: ${validated.errors.map(error => `${error.field} ${error.message}`).join('; ')}`
+      );
     }
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Failed to execute ${name}: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-});
+    try {
+      if (!isMcpMode) {
+        console.error(chalk.cyan(`🔧 Executing: ${name}`));
+        console.error(chalk.gray(`   Args: ${JSON.stringify(args, null, 2)}`));
+      }
+      const universe = universes.current();
+      const result = await recordChanges({ tool: name }, () => tool.handler(validated.args));
+      if (universes.current() !== universe) {
+        // Switching universes changes every resource at once
+        await notifyResourceChanges('all');
+      }
+      if (!isMcpMode) {
+        console.error(chalk.green(`✅ ${name} completed successfully`));
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (!isMcpMode) {
+        console.error(chalk.red(`❌ Error executing ${name}:`), error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to execute ${name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: currentResources().templates };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    try {
+      return await currentResources().list(request.params?.cursor);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      return await currentResources().read(uri);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read ${uri}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    sessions.get(server)?.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    sessions.get(server)?.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: currentPrompts().prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    try {
+      return await currentPrompts().get(name, args);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  return server;
+}
+
+async function connectServer(server: Server, transport: Transport): Promise<void> {
+  sessions.set(server, new Set());
+  server.onclose = () => sessions.delete(server);
+  await server.connect(transport);
+}
+
+// The stdio server; in HTTP mode each session gets its own
+const server = createServer();
 
 // --- DEMO MODE LOGIC ---
 async function runDemoMode() {
@@ -207,11 +386,41 @@ async function runDemoMode() {
 }
 // --- END DEMO MODE LOGIC ---
 
+// Streamable HTTP, so several clients can share one long-lived universe
+async function serveHttp(port: number, host?: string, allowedOrigins?: string[]) {
+  const { startHttpServer } = await import('./transports/http.js');
+  const http = await startHttpServer({
+    port,
+    host,
+    allowedOrigins,
+    connect: transport => connectServer(createServer(), transport),
+    health: () => ({ universe: universes.current().name }),
+  });
+  console.error(chalk.green(`Fed Simulator MCP Server listening on ${http.url}/mcp`));
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    console.error(chalk.yellow(`\n${signal} received, closing ${http.sessionCount()} session(s)...`));
+    await http.close();
+    // Flushes every universe's journal before the process goes away
+    await universes.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
 // Start the server
 async function main() {
-  await initializeServer();
+  const { httpPort, httpHost, httpAllowedOrigins } = await initializeServer();
+  if (httpPort !== undefined) {
+    await serveHttp(httpPort, httpHost, httpAllowedOrigins);
+    return;
+  }
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await connectServer(server, transport);
   if (!isMcpMode) {
     console.error(chalk.green('Fed Simulator MCP Server running on stdio'));
   }
@@ -0,0 +1,157 @@
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { callTool } from '../actions/action-wrapper.js';
+import { createWrestlerTools } from '../tools/wrestler-tools.js';
+import { createBrandTools } from '../tools/brand-tools.js';
+import { createProductionTools } from '../tools/production-tools.js';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Instructions for the model followed by the data they are about
+  build(args: Record<string, string>): Promise<{ description: string; instructions: string; data: Record<string, any> }>;
+}
+
+/**
+ * Thrown for an unknown prompt, a missing argument or one that names no record.
+ */
+export class PromptArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptArgumentError';
+  }
+}
+
+function idArgument(args: Record<string, string>, name: string): number {
+  const id = Number(args[name]);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new PromptArgumentError(`Argument '${name}' must be a record ID (got '${args[name]}')`);
+  }
+  return id;
+}
+
+const section = (title: string, data: unknown) => `## ${title}\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+
+/**
+ * Prompt templates for common booking workflows. Each one is filled with the
+ * current data from the matching tools, so the conversation starts from the
+ * actual roster, books or card.
+ */
+export function createPrompts(db: TypedFedSimDatabase) {
+  const wrestlerTools = createWrestlerTools(db);
+  const brandTools = createBrandTools(db);
+  const productionTools = createProductionTools(db);
+
+  // Feuds are easier to ask for by name, so accept either a wrestler's ID or name
+  const findWrestler = async (args: Record<string, string>, name: string) => {
+    const value = args[name].trim();
+    if (/^\d+$/.test(value)) {
+      return callTool(wrestlerTools, 'get_wrestler_stats', { id: Number(value) });
+    }
+    const wrestler = (await db.Wrestler.toArray()).find(candidate => candidate.name?.toLowerCase() === value.toLowerCase());
+    if (!wrestler) {
+      throw new PromptArgumentError(`No wrestler named '${value}'`);
+    }
+    return callTool(wrestlerTools, 'get_wrestler_stats', { id: wrestler.id });
+  };
+
+  const templates: PromptTemplate[] = [
+    {
+      name: 'book_weekly_show',
+      description: 'Book this week\'s show for a brand from its current roster and budget',
+      arguments: [{ name: 'brandId', description: 'Brand ID', required: true }],
+      build: async args => {
+        const brandId = idArgument(args, 'brandId');
+        const roster = await callTool(brandTools, 'get_brand_roster', { id: brandId });
+        const finances = await callTool(brandTools, 'get_brand_financials', { id: brandId });
+        return {
+          description: `Book a weekly show for ${roster.brand.name}`,
+          instructions: `Book this week's ${roster.brand.name} show. Use only wrestlers from the roster below, ` +
+            'give the main event to the highest rated talent, balance faces and heels across the card and keep ' +
+            'the wrestler costs within what the brand can afford. Propose the card segment by segment, then create it ' +
+            'with create_production and create_random_segment or randomize_production.',
+          data: { Roster: roster, Financials: finances },
+        };
+      },
+    },
+    {
+      name: 'plan_feud',
+      description: 'Plan a storyline feud between two wrestlers',
+      arguments: [
+        { name: 'wrestlerA', description: 'ID or name of the first wrestler', required: true },
+        { name: 'wrestlerB', description: 'ID or name of the second wrestler', required: true },
+      ],
+      build: async args => {
+        const first = await findWrestler(args, 'wrestlerA');
+        const second = await findWrestler(args, 'wrestlerB');
+        const names = `${first.basicInfo.name} and ${second.basicInfo.name}`;
+        return {
+          description: `Plan a feud between ${names}`,
+          instructions: `Plan a feud between ${names} over the next four to six weeks. Use their alignment, ` +
+            'popularity, momentum and records below to decide who chases whom, how it builds week to week and ' +
+            'who should win the blow-off match, and explain why.',
+          // Fixed titles, since two wrestlers may share a name
+          data: { 'Wrestler A': first, 'Wrestler B': second },
+        };
+      },
+    },
+    {
+      name: 'review_finances',
+      description: 'Review a brand\'s finances and recent show profits',
+      arguments: [{ name: 'brandId', description: 'Brand ID', required: true }],
+      build: async args => {
+        const finances = await callTool(brandTools, 'get_brand_financials', { id: idArgument(args, 'brandId') });
+        return {
+          description: `Review the finances of ${finances.brand.name}`,
+          instructions: `Review the finances of ${finances.brand.name}. Say whether the brand is making or losing ` +
+            'money, which recent shows helped or hurt, and what to change (card size, talent costs, venues) to ' +
+            'improve the balance.',
+          data: { Financials: finances },
+        };
+      },
+    },
+    {
+      name: 'recap_production',
+      description: 'Write a recap of a production from its report',
+      arguments: [{ name: 'id', description: 'Production ID', required: true }],
+      build: async args => {
+        const report = await callTool(productionTools, 'get_production_report', { id: idArgument(args, 'id') });
+        return {
+          description: `Recap ${report.production.name}`,
+          instructions: `Write a recap of ${report.production.name} for fans: go through the card in order, ` +
+            'highlight the best rated segments, and finish with the attendance, viewers and how the show did financially.',
+          data: { Report: report },
+        };
+      },
+    },
+  ];
+
+  const get = async (name: string, args: Record<string, string> = {}) => {
+    const template = templates.find(candidate => candidate.name === name);
+    if (!template) {
+      throw new PromptArgumentError(`Prompt '${name}' not found`);
+    }
+    const missing = template.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+    if (missing.length > 0) {
+      throw new PromptArgumentError(`Missing required argument(s) for ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+    }
+
+    const filled = await template.build(args);
+    const text = [filled.instructions, ...Object.entries(filled.data).map(([title, data]) => section(title, data))].join('\n\n');
+    return {
+      description: filled.description,
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+    };
+  };
+
+  return {
+    prompts: templates.map(({ name, description, arguments: promptArguments }) => ({ name, description, arguments: promptArguments })),
+    get,
+  };
+}
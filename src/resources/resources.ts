@@ -0,0 +1,219 @@
+import type { TypedFedSimDatabase } from '../types/database.js';
+import type { JournalEntry } from '../database/journal.js';
+import { callTool } from '../actions/action-wrapper.js';
+import { createWrestlerTools } from '../tools/wrestler-tools.js';
+import { createBrandTools } from '../tools/brand-tools.js';
+import { createProductionTools } from '../tools/production-tools.js';
+
+export const RESOURCE_PAGE_SIZE = 50;
+
+const MIME_TYPE = 'application/json';
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  // Every record of this table is listed as one resource of the template
+  table: string;
+  // Name of the listed resource for one record
+  title(record: any): string;
+  read(id: number): Promise<any>;
+}
+
+/**
+ * Thrown when a URI matches no template or names a record that does not exist.
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(public readonly uri: string) {
+    super(`Resource ${uri} not found`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+// `fedsim://brand/{id}/roster` with id 3 becomes `fedsim://brand/3/roster`
+export const resourceUri = (uriTemplate: string, id: number) => uriTemplate.replace('{id}', String(id));
+
+const templatePattern = (uriTemplate: string) =>
+  new RegExp(`^${uriTemplate.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace('{id}', '(\\d+)')}$`);
+
+// Cursors are opaque to clients; this one is the offset of the next page
+const encodeCursor = (offset: number) => Buffer.from(String(offset)).toString('base64url');
+
+function decodeCursor(cursor: string): number {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+  return offset;
+}
+
+// Tables with one listed resource per record
+const LISTED_TABLES = ['Wrestler', 'Brand', 'Production', 'Championship'];
+
+const idsIn = (value: unknown): number[] =>
+  Array.isArray(value) ? value : typeof value === 'number' ? [value] : [];
+
+/**
+ * Which resources a batch of journaled writes touched: the URIs whose
+ * contents changed, and whether the resource list itself changed (records
+ * added, removed or renamed).
+ */
+export function changedResources(changes: JournalEntry[]): { uris: string[]; listChanged: boolean } {
+  const uris = new Set<string>();
+  let listChanged = false;
+
+  for (const { table, id, before, after } of changes) {
+    if (LISTED_TABLES.includes(table) && (!before || !after || before.name !== after.name)) {
+      listChanged = true;
+    }
+
+    switch (table) {
+      case 'Wrestler':
+        uris.add(resourceUri('fedsim://wrestler/{id}', id));
+        // The wrestler shows up on the roster of every brand they joined or left
+        for (const brandId of new Set([...idsIn(before?.brandIds), ...idsIn(after?.brandIds)])) {
+          uris.add(resourceUri('fedsim://brand/{id}/roster', brandId));
+        }
+        break;
+      case 'Brand':
+        uris.add(resourceUri('fedsim://brand/{id}/roster', id));
+        break;
+      case 'Production':
+        uris.add(resourceUri('fedsim://production/{id}/report', id));
+        break;
+      case 'Championship':
+        uris.add(resourceUri('fedsim://championship/{id}/history', id));
+        break;
+      case 'Reign':
+        for (const championshipId of new Set([...idsIn(before?.championshipId), ...idsIn(after?.championshipId)])) {
+          uris.add(resourceUri('fedsim://championship/{id}/history', championshipId));
+        }
+        break;
+    }
+  }
+
+  return { uris: [...uris], listChanged };
+}
+
+/**
+ * The universe as MCP resources: a wrestler, a brand roster, a production
+ * report and a championship's title history, read through the same functions
+ * as the matching tools.
+ */
+export function createResources(db: TypedFedSimDatabase) {
+  const wrestlerTools = createWrestlerTools(db);
+  const brandTools = createBrandTools(db);
+  const productionTools = createProductionTools(db);
+
+  const viaTool = (tools: Map<string, any>, name: string) => (id: number) => callTool(tools, name, { id });
+
+  const championshipHistory = async (id: number) => {
+    const championship = await db.Championship.get(id);
+    const reigns = (await db.Reign.where('championshipId').equals(id).toArray())
+      .sort((a, b) => new Date(a.startDate ?? 0).getTime() - new Date(b.startDate ?? 0).getTime());
+    const holderIds: number[] = [...new Set<number>(reigns.flatMap(reign => reign.wrestlerIds ?? []))];
+    const holders = new Map<number, string>();
+    for (const wrestlerId of holderIds) {
+      const wrestler = await db.Wrestler.get(wrestlerId);
+      if (wrestler) holders.set(wrestlerId, wrestler.name);
+    }
+
+    return {
+      championship: { id: championship.id, name: championship.name, active: championship.active },
+      totalReigns: reigns.length,
+      reigns: reigns.map(reign => ({
+        id: reign.id,
+        holders: (reign.wrestlerIds ?? []).map((wrestlerId: number) => ({ id: wrestlerId, name: holders.get(wrestlerId) ?? null })),
+        startDate: reign.startDate,
+        endDate: reign.endDate ?? null,
+        defenses: reign.defenses ?? 0,
+      })),
+    };
+  };
+
+  const templates: ResourceTemplate[] = [
+    {
+      uriTemplate: 'fedsim://wrestler/{id}',
+      name: 'Wrestler',
+      description: 'Profile, stats, record and contract of a wrestler',
+      mimeType: MIME_TYPE,
+      table: 'Wrestler',
+      title: wrestler => wrestler.name,
+      read: viaTool(wrestlerTools, 'get_wrestler_stats'),
+    },
+    {
+      uriTemplate: 'fedsim://brand/{id}/roster',
+      name: 'Brand roster',
+      description: 'Active wrestlers of a brand with alignment, gender and cost totals',
+      mimeType: MIME_TYPE,
+      table: 'Brand',
+      title: brand => `${brand.name} roster`,
+      read: viaTool(brandTools, 'get_brand_roster'),
+    },
+    {
+      uriTemplate: 'fedsim://production/{id}/report',
+      name: 'Production report',
+      description: 'Card, financials and audience of a production',
+      mimeType: MIME_TYPE,
+      table: 'Production',
+      title: production => `${production.name} report`,
+      read: viaTool(productionTools, 'get_production_report'),
+    },
+    {
+      uriTemplate: 'fedsim://championship/{id}/history',
+      name: 'Championship history',
+      description: 'Every reign of a championship, oldest first, with holders and defenses',
+      mimeType: MIME_TYPE,
+      table: 'Championship',
+      title: championship => `${championship.name} history`,
+      read: championshipHistory,
+    },
+  ];
+
+  // One page of concrete resources, template by template in id order
+  const list = async (cursor?: string) => {
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    const resources: Array<{ uri: string; name: string; description: string; mimeType: string }> = [];
+    let total = 0;
+
+    for (const template of templates) {
+      const records = await (db as any)[template.table].toArray();
+      for (const record of records) {
+        if (total >= offset && resources.length < RESOURCE_PAGE_SIZE) {
+          resources.push({
+            uri: resourceUri(template.uriTemplate, record.id),
+            name: template.title(record),
+            description: template.description,
+            mimeType: template.mimeType,
+          });
+        }
+        total++;
+      }
+    }
+
+    const next = offset + resources.length;
+    return next < total ? { resources, nextCursor: encodeCursor(next) } : { resources };
+  };
+
+  const read = async (uri: string) => {
+    for (const template of templates) {
+      const match = templatePattern(template.uriTemplate).exec(uri);
+      if (!match) continue;
+
+      const id = Number(match[1]);
+      if (!(await (db as any)[template.table].get(id))) {
+        throw new ResourceNotFoundError(uri);
+      }
+      const data = await template.read(id);
+      return { contents: [{ uri, mimeType: template.mimeType, text: JSON.stringify(data, null, 2) }] };
+    }
+    throw new ResourceNotFoundError(uri);
+  };
+
+  return {
+    templates: templates.map(({ uriTemplate, name, description, mimeType }) => ({ uriTemplate, name, description, mimeType })),
+    list,
+    read,
+  };
+}
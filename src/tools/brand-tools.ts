@@ -1,8 +1,9 @@
-import { FedSimDatabase, Brand } from '../database/db.js';
+import type { Brand } from '../database/db.js';
 import { DatabaseActions, createActionWrapper } from '../actions/action-wrapper.js';
 import { logger } from '../utils/logger.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
 
-export function createBrandTools(db: FedSimDatabase) {
+export function createBrandTools(db: TypedFedSimDatabase) {
   const dbActions = new DatabaseActions(db);
 
   const createBrand = createActionWrapper('Create Brand', async (brandData: Partial<Brand>) => {
@@ -31,14 +32,15 @@ export function createBrandTools(db: FedSimDatabase) {
     return createdBrand;
   });
 
-  const updateBrandBalance = createActionWrapper('Update Brand Balance', async (id: number, amount: number) => {
+  const updateBrandBalance = createActionWrapper('Update Brand Balance', async (id: number, amount: number, expectedRevision?: string) => {
     const brand = await db.Brand.get(id);
     if (!brand) {
       throw new Error(`Brand with ID ${id} not found`);
     }
 
+    // Based on the balance just read, so a write that lands in between is a conflict rather than lost
     const newBalance = brand.balance + amount;
-    await db.Brand.update(id, { balance: newBalance });
+    await db.Brand.update(id, { balance: newBalance }, { expectedRevision: expectedRevision ?? brand._rev });
     
     const updatedBrand = await db.Brand.get(id);
     
@@ -204,11 +206,12 @@ export function createBrandTools(db: FedSimDatabase) {
         properties: {
           id: { type: 'number', description: 'Brand ID' },
           amount: { type: 'number', description: 'Amount to add (positive) or subtract (negative)' },
+          expectedRevision: { type: 'string', description: 'Revision (_rev) the change is based on; the update fails with a conflict if the brand has changed since' },
         },
         required: ['id', 'amount'],
       },
       handler: async (args: any) => {
-        const result = await updateBrandBalance(args.id, args.amount);
+        const result = await updateBrandBalance(args.id, args.amount, args.expectedRevision);
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
@@ -277,17 +280,18 @@ export function createBrandTools(db: FedSimDatabase) {
               balance: { type: 'number' },
             }
           },
+          expectedRevision: { type: 'string', description: 'Revision (_rev) the changes are based on; the update fails with a conflict if the brand has changed since' },
         },
         required: ['id', 'updates'],
       },
       handler: async (args: any) => {
-        const result = await dbActions.updateRecord('Brand', args.id, args.updates);
+        const result = await dbActions.updateRecord('Brand', args.id, args.updates, args.expectedRevision);
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
     ['delete_brand', {
       name: 'delete_brand',
-      description: 'Delete a brand (permanent)',
+      description: 'Delete a brand (moved to the trash, where restore_from_trash can bring it back)',
       inputSchema: {
         type: 'object',
         properties: {
@@ -0,0 +1,282 @@
+import { readFile, writeFile } from 'fs/promises';
+import { createActionWrapper } from '../actions/action-wrapper.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { tableNames } from '../database/schema.js';
+import { idReferenceFields } from '../database/id-remap.js';
+import { fieldKind, knownFields, validateRecord } from '../database/validation.js';
+import type { FieldError } from '../database/errors.js';
+import { parseCsv, formatCsv } from '../utils/csv.js';
+import { logger } from '../utils/logger.js';
+import { defaultWrestler } from './wrestler-tools.js';
+
+// Backend bookkeeping that never goes into a spreadsheet
+const HIDDEN_COLUMNS = ['_id', '_rev', 'type'];
+
+// Values new records start with when a column is missing or blank, matching the create_* tools
+const TABLE_DEFAULTS: Record<string, () => Record<string, any>> = {
+  Wrestler: defaultWrestler,
+};
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+interface RowError {
+  line: number;
+  message: string;
+}
+
+function tableColumns(table: string): string[] {
+  const fields = knownFields(table);
+  if (!fields || !tableNames.includes(table)) {
+    throw new Error(`Table '${table}' not found`);
+  }
+  return [...new Set(['id', ...fields.filter(field => !HIDDEN_COLUMNS.includes(field))])];
+}
+
+function formatCell(value: unknown, separator: string): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = Array.isArray(value)
+    ? value.map(item => formatCell(item, separator)).join(separator)
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // A leading ' keeps a name like "=HYPERLINK(...)" as text; import_csv takes it off again
+  return FORMULA_START.test(text) ? `'${text}` : text;
+}
+
+const unescapeFormula = (text: string) => (text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text);
+
+/**
+ * Looks records up by name so spreadsheets can say "Raw" instead of a brand id.
+ * Each table is read once per import.
+ */
+class NameResolver {
+  private byName = new Map<string, Map<string, number[]>>();
+
+  constructor(private db: TypedFedSimDatabase) {}
+
+  async resolve(table: string, value: string): Promise<number> {
+    if (/^\d+$/.test(value)) return Number(value);
+
+    let names = this.byName.get(table);
+    if (!names) {
+      names = new Map();
+      for (const record of await (this.db as any)[table].toArray()) {
+        if (typeof record.name !== 'string') continue;
+        const key = record.name.trim().toLowerCase();
+        names.set(key, [...(names.get(key) || []), record.id]);
+      }
+      this.byName.set(table, names);
+    }
+
+    const ids = names.get(value.toLowerCase()) || [];
+    if (ids.length === 0) throw new Error(`has no ${table} named "${value}"`);
+    if (ids.length > 1) throw new Error(`matches several ${table} records named "${value}" (ids ${ids.join(', ')})`);
+    return ids[0];
+  }
+}
+
+// Turn one cell into the value the field holds; blank cells are left out of the record
+async function parseCell(
+  table: string,
+  field: string,
+  raw: string,
+  separator: string,
+  names: NameResolver
+): Promise<unknown> {
+  const text = unescapeFormula(raw.trim());
+  const reference = idReferenceFields[table]?.[field];
+
+  switch (fieldKind(table, field)) {
+    case 'number':
+      if (reference) return names.resolve(reference, text);
+      return Number(text);
+    case 'boolean':
+      if (TRUE_VALUES.includes(text.toLowerCase())) return true;
+      if (FALSE_VALUES.includes(text.toLowerCase())) return false;
+      return text;
+    case 'date':
+      return Number.isNaN(Date.parse(text)) ? text : new Date(text);
+    case 'enum':
+      return text.toUpperCase();
+    case 'idArray': {
+      const parts = text.split(separator).map(part => part.trim()).filter(Boolean);
+      if (!reference) return parts.map(part => (/^\d+$/.test(part) ? Number(part) : part));
+      return Promise.all(parts.map(part => names.resolve(reference, part)));
+    }
+    case 'array':
+      return text.split(separator).map(part => part.trim()).filter(Boolean);
+    default:
+      return unescapeFormula(raw);
+  }
+}
+
+export function createCsvTools(db: TypedFedSimDatabase) {
+  const exportCsv = createActionWrapper('Export CSV', async (params: {
+    table: string;
+    columns?: string[];
+    arraySeparator?: string;
+    filePath?: string;
+  }) => {
+    const { table, arraySeparator = ';' } = params;
+    const available = tableColumns(table);
+    const columns = params.columns?.length ? params.columns : available;
+    const unknown = columns.filter(column => !available.includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown columns for ${table}: ${unknown.join(', ')}. Available columns: ${available.join(', ')}`);
+    }
+
+    const records = await (db as any)[table].toArray();
+    records.sort((a: any, b: any) => a.id - b.id);
+    const csv = formatCsv(columns, records.map((record: any) => columns.map(column => formatCell(record[column], arraySeparator))));
+
+    if (params.filePath) {
+      await writeFile(params.filePath, csv, 'utf8');
+      logger.success('Exported CSV', { table, rowCount: records.length, filePath: params.filePath });
+      return { table, columns, rowCount: records.length, filePath: params.filePath };
+    }
+    return { table, columns, rowCount: records.length, csv };
+  });
+
+  const importCsv = createActionWrapper('Import CSV', async (params: {
+    table: string;
+    data?: string;
+    filePath?: string;
+    arraySeparator?: string;
+    dryRun?: boolean;
+  }) => {
+    const { table, arraySeparator = ';', dryRun = false } = params;
+    const available = tableColumns(table);
+    const tableRef = (db as any)[table];
+
+    let text: string;
+    if (params.filePath) {
+      text = await readFile(params.filePath, 'utf8');
+    } else if (typeof params.data === 'string') {
+      text = params.data;
+    } else {
+      throw new Error('Provide either data (CSV text) or filePath');
+    }
+
+    const { header, records } = parseCsv(text);
+    const columns = header.map(name => (available.includes(name) ? name : null));
+    const ignoredColumns = header.filter((name, index) => columns[index] === null);
+
+    const names = new NameResolver(db);
+    const errors: RowError[] = [];
+    let created = 0;
+    let updated = 0;
+
+    for (const { line, values } of records) {
+      const row: Record<string, any> = {};
+      const fieldErrors: FieldError[] = [];
+
+      for (const [index, field] of columns.entries()) {
+        const raw = values[index] ?? '';
+        if (!field || raw.trim() === '') continue;
+
+        if (field === 'id') {
+          const id = Number(raw.trim());
+          if (Number.isInteger(id) && id > 0) row.id = id;
+          else fieldErrors.push({ field, message: `must be a positive whole number (got "${raw}")` });
+          continue;
+        }
+
+        try {
+          row[field] = await parseCell(table, field, raw, arraySeparator, names);
+        } catch (error) {
+          fieldErrors.push({ field, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      fieldErrors.push(...validateRecord(table, row).filter(error => !fieldErrors.some(other => other.field === error.field)));
+      if (fieldErrors.length > 0) {
+        errors.push({ line, message: fieldErrors.map(error => `${error.field} ${error.message}`).join('; ') });
+        continue;
+      }
+
+      const { id, ...fields } = row;
+      try {
+        if (id !== undefined && await tableRef.get(id)) {
+          if (!dryRun) await tableRef.update(id, fields);
+          updated++;
+        } else {
+          const record = { ...TABLE_DEFAULTS[table]?.(), ...fields };
+          if (!dryRun) {
+            if (id !== undefined) await tableRef.put({ ...record, id });
+            else await tableRef.add(record);
+          }
+          created++;
+        }
+      } catch (error) {
+        errors.push({ line, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const report = {
+      table,
+      dryRun,
+      imported: created + updated,
+      created,
+      updated,
+      skipped: errors.length,
+      errors,
+      ignoredColumns,
+    };
+    logger.success(dryRun ? 'Checked CSV import' : 'Imported CSV', {
+      table,
+      imported: report.imported,
+      skipped: report.skipped,
+    });
+    return report;
+  });
+
+  return new Map([
+    ['export_csv', {
+      name: 'export_csv',
+      description: 'Export a table as CSV, e.g. a roster for a spreadsheet. Array fields such as brandIds are joined with the separator',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          table: { type: 'string', description: 'Table name', enum: tableNames },
+          columns: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Columns to export, in order (optional, defaults to every schema field)',
+          },
+          arraySeparator: { type: 'string', description: 'Separator for array fields', default: ';' },
+          filePath: { type: 'string', description: 'Write the CSV to this file instead of returning it' },
+        },
+        required: ['table'],
+      },
+      handler: async (args: any) => {
+        const result = await exportCsv(args);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['import_csv', {
+      name: 'import_csv',
+      description: 'Import CSV rows into a table. Rows with an existing id update that record, others are created with the ' +
+        'same defaults as the create tools. Reference columns such as brandIds accept names as well as ids. ' +
+        'Invalid rows are reported by line number and skipped; the rest of the file still loads',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          table: { type: 'string', description: 'Table name', enum: tableNames },
+          data: { type: 'string', description: 'CSV text with a header row' },
+          filePath: { type: 'string', description: 'Path to a CSV file (alternative to data)' },
+          arraySeparator: { type: 'string', description: 'Separator for array fields', default: ';' },
+          dryRun: { type: 'boolean', description: 'Check every row and report what would change without writing', default: false },
+        },
+        required: ['table'],
+      },
+      handler: async (args: any) => {
+        const result = await importCsv(args);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+  ]);
+}
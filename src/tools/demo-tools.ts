@@ -1,9 +1,9 @@
-import { FedSimDatabase } from '../database/db.js';
 import { DatabaseActions, createActionWrapper } from '../actions/action-wrapper.js';
 import { logger } from '../utils/logger.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
 import { demoWrestlers, demoBrands, demoCompanies, demoVenues } from '../demo/fixtures.js';
 
-export function createDemoTools(db: FedSimDatabase) {
+export function createDemoTools(db: TypedFedSimDatabase) {
   const dbActions = new DatabaseActions(db);
 
   const runDemo = createActionWrapper('Run Demo Tutorial', async () => {
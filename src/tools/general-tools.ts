@@ -1,14 +1,64 @@
+import { readFile } from 'fs/promises';
 import { DatabaseActions, createActionWrapper } from '../actions/action-wrapper.js';
+import { version, stores, tableNames, internalTables, parseSchemaFields } from '../database/schema.js';
+import { migrateTables, storesFor, databaseName, supportedVersions, defaultExportVersion } from '../database/migrations.js';
+import { remapReferences, type IdMaps } from '../database/id-remap.js';
+import { validateRecord, knownFields } from '../database/validation.js';
+import { ValidationError } from '../database/errors.js';
+import { collate } from '../database/mango.js';
 import { logger } from '../utils/logger.js';
+import { reviveDates, reviveJson } from '../utils/json.js';
+
+interface DexieExport {
+  formatName: string;
+  formatVersion: number;
+  data: {
+    databaseName: string;
+    databaseVersion: number;
+    tables: Array<{ name: string; schema: string; rowCount: number }>;
+    data: Array<{ tableName: string; inbound: boolean; rows: any[] }>;
+  };
+}
+
+interface TableRestorePlan {
+  created: number[];
+  overwritten: number[];
+  deleted: number[];
+}
+
+interface TableImportReport {
+  imported: number;
+  skipped: number;
+  skippedRows: Array<{ index: number; reason: string }>;
+}
+
+async function loadDexieExport(source: { data?: unknown; filePath?: string }): Promise<DexieExport> {
+  let parsed: any;
+  if (source.filePath) {
+    parsed = JSON.parse(await readFile(source.filePath, 'utf8'), reviveDates);
+  } else if (source.data && (typeof source.data === 'string' || typeof source.data === 'object')) {
+    // Inline exports arrive as plain JSON, so dates still need reviving
+    parsed = reviveJson(source.data);
+  } else {
+    throw new Error('Provide either data (export object or JSON string) or filePath');
+  }
+
+  if (parsed?.formatName !== 'dexie' || !Array.isArray(parsed?.data?.data)) {
+    throw new Error('Not a Dexie export: expected formatName "dexie" with a data.data array of tables');
+  }
+  return parsed as DexieExport;
+}
 
 export function createGeneralTools(db: any) {
   const dbActions = new DatabaseActions(db);
 
+  // Internal tables like Trash have their own tools and are never read or written here
+  const fedSimTable = (table: string) => (internalTables.includes(table) ? undefined : db[table]);
+
   const getDatabaseStats = createActionWrapper('Get Database Stats', async () => {
-    const tables = ['Wrestler', 'Brand', 'Company', 'Production', 'Segment', 'Championship', 'Venue', 'Show'];
     const stats: Record<string, number> = {};
 
-    for (const table of tables) {
+    for (const table of tableNames) {
       try {
         const count = await (db as any)[table].count();
         stats[table] = count;
@@ -38,7 +88,7 @@ export function createGeneralTools(db: any) {
   }) => {
     const { table, searchTerm, limit = 20 } = query;
     
-    const tableRef = (db as any)[table];
+    const tableRef = fedSimTable(table);
     if (!tableRef) {
       throw new Error(`Table '${table}' not found`);
     }
@@ -67,13 +117,16 @@ export function createGeneralTools(db: any) {
   });
 
   const backupData = createActionWrapper('Backup Data', async (tables?: string[]) => {
-    const tablesToBackup = tables || ['Wrestler', 'Brand', 'Company', 'Production', 'Championship', 'Venue', 'Show'];
+    const tablesToBackup = tables || tableNames;
     const backup: Record<string, any[]> = {};
+    const sequences: Record<string, number> = {};
 
     for (const table of tablesToBackup) {
       try {
-        const data = await (db as any)[table].toArray();
+        const tableRef = fedSimTable(table);
+        const data = await tableRef.toArray();
         backup[table] = data;
+        sequences[table] = await tableRef.getSequence();
       } catch (error) {
         logger.warning(`Failed to backup table ${table}`, { error: error instanceof Error ? error.message : String(error) });
         backup[table] = [];
@@ -94,40 +147,113 @@ export function createGeneralTools(db: any) {
         timestamp: new Date(),
         tables: tablesToBackup,
         totalRecords,
+        sequences,
       },
     };
   });
 
-  const exportDexieData = createActionWrapper('Export Dexie Data', async (tables?: string[]) => {
-    // Export all Fed Simulator tables to ensure compatibility
-    const tablesToExport = tables || [
-      'Venue', 'Company', 'Brand', 'Wrestler', 'Championship', 'Show', 'Production', 
-      'Segment', 'Appearance', 'Faction', 'Draft', 'Game', 'StorylineTemplate', 
-      'Storyline', 'StorylineBeat', 'Reign', 'Rumble', 'Favourite', 'Bet'
-    ];
-    
-    // Define proper schemas for each table based on Fed Simulator X
-    const tableSchemas: Record<string, string> = {
-      Venue: "++id,name,desc,image,color,backgroundColor,images,capacity,location,cost,revenueMultiplier,timeZone,setupTimeInDays,historicalRating,pyroRating,lightingRating,parkingRating",
-      Company: "++id,name,desc,image,color,backgroundColor",
-      Brand: "++id,name,desc,image,color,backgroundColor,images,directorId,balance,companyId",
-      Wrestler: "++id,name,desc,image,color,backgroundColor,images,brandIds,entranceVideoUrl,pushed,remainingAppearances,contractType,contractExpires,status,billedFrom,region,country,dob,height,weight,alignment,gender,role,followers,losses,wins,streak,draws,points,morale,stamina,popularity,charisma,damage,active,retired,cost,special,finisher,musicUrl",
-      Championship: "++id,name,desc,image,color,backgroundColor,images,wrestlerIds,brandIds,gender,holders,minPoints,maxPoints,rank,active",
-      Show: "++id,name,desc,image,color,backgroundColor,images,brandIds,commentatorIds,refereeIds,interviewerIds,authorityIds,special,frequency,monthIndex,weekIndex,dayIndex,maxDuration,entranceVideoUrl,minPoints,maxPoints,income,defaultAmountSegments,avgTicketPrice,avgMerchPrice,avgViewers,avgAttendance",
-      Bet: "++id,segmentId,wrestlerId,amount,type,complete,date",
-      Production: "++id,name,desc,image,color,backgroundColor,brandIds,venueId,segmentIds,showId,date,wrestlersCost,segmentsCost,merchIncome,attendanceIncome,attendance,viewers,step,complete",
-      Segment: "++id,name,championshipIds,appearanceIds,date,type,duration,rating,complete",
-      Appearance: "++id,wrestlerId,groupId,manager,cost,winner,loser,draw,[groupId+wrestlerId]",
-      Faction: "++id,name,desc,image,color,backgroundColor,images,brandIds,leaderIds,managerIds,wrestlerIds,startDate,endDate",
-      Draft: "++id,startDate,endDate,contractType,amountOfAppearances,costPerAppearance,pick,complete,brandId,wrestlerId",
-      Game: "++id,brandIds,gender,tutorials,storeVersion,desc,color,backgroundColor,date,dark",
-      StorylineTemplate: "++id,name,description,category,suggestedDurationWeeks,roles,requirements,storyBeats,active",
-      Storyline: "++id,templateId,name,description,targetEventId,startDate,endDate,status,participants,intensity,peakIntensity",
-      StorylineBeat: "++id,storylineId,beatId,segmentId,completedDate,productionId",
-      Reign: "++id,wrestlerIds,championshipId,defenses,startDate,endDate",
-      Rumble: "++id,name,desc,image,color,backgroundColor,date,championshipId,entryIds,enteredIds,eliminationIds,eliminatedByIds,winnerId,gender,brandIds,duration,active,complete",
-      Favourite: "++id,itemId,itemGroup,dateFavourited"
+  const restoreBackup = createActionWrapper('Restore Backup', async (params: {
+    backup: unknown;
+    mode?: 'replace' | 'merge';
+    tables?: string[];
+    dryRun?: boolean;
+  }) => {
+    const { mode = 'merge', dryRun = false } = params;
+    if (mode !== 'replace' && mode !== 'merge') {
+      throw new Error(`Invalid restore mode: ${mode} (expected 'replace' or 'merge')`);
+    }
+    if (!params.backup) {
+      throw new Error('No backup provided');
+    }
+
+    // Accept the full backup_data result ({ backup, metadata }) or just its backup map
+    const parsed = reviveJson<any>(params.backup);
+    const backup: Record<string, any[]> = parsed.backup && parsed.metadata ? parsed.backup : parsed;
+    const tablesToRestore = params.tables || Object.keys(backup);
+    const plan: Record<string, TableRestorePlan> = {};
+
+    for (const table of tablesToRestore) {
+      const tableRef = fedSimTable(table);
+      if (!tableRef || typeof tableRef.put !== 'function') {
+        throw new Error(`Table '${table}' not found`);
+      }
+      if (!Array.isArray(backup[table])) {
+        throw new Error(`Backup does not contain table '${table}'`);
+      }
+    }
+
+    // Refuse the whole restore up front rather than failing halfway through
+    const invalid = tablesToRestore.flatMap(table =>
+      backup[table].flatMap(record => {
+        const errors = validateRecord(table, record);
+        return errors.length > 0 ? [`${table} ${record.id}: ${new ValidationError(table, errors).message}`] : [];
+      })
+    );
+    if (invalid.length > 0) {
+      throw new Error(`Backup contains ${invalid.length} invalid record(s): ${invalid.slice(0, 5).join(' | ')}`);
+    }
+
+    for (const table of tablesToRestore) {
+      const existing: any[] = await (db as any)[table].toArray();
+      const existingIds = new Set(existing.map(record => record.id));
+      const backupIds = new Set(backup[table].map(record => record.id));
+
+      plan[table] = {
+        created: [...backupIds].filter(id => !existingIds.has(id)),
+        overwritten: [...backupIds].filter(id => existingIds.has(id)),
+        deleted: mode === 'replace' ? [...existingIds].filter(id => !backupIds.has(id)) : [],
+      };
+    }
+
+    if (!dryRun) {
+      // Every table is restored or none is
+      await db.transaction(async () => {
+        for (const table of tablesToRestore) {
+          const tableRef = (db as any)[table];
+          for (const id of plan[table].deleted) {
+            await tableRef.delete(id);
+          }
+          for (const { _id, _rev, type, ...record } of backup[table]) {
+            await tableRef.put(record);
+          }
+          // Replace rewinds the id counter to the backup's; merge only ever moves it forward
+          const sequence = parsed.metadata?.sequences?.[table];
+          if (typeof sequence === 'number') {
+            await tableRef.setSequence(mode === 'replace' ? sequence : Math.max(sequence, await tableRef.getSequence()));
+          }
+        }
+      });
+    }
+
+    const summary = Object.values(plan).reduce(
+      (totals, tablePlan) => ({
+        created: totals.created + tablePlan.created.length,
+        overwritten: totals.overwritten + tablePlan.overwritten.length,
+        deleted: totals.deleted + tablePlan.deleted.length,
+      }),
+      { created: 0, overwritten: 0, deleted: 0 }
+    );
+
+    if (dryRun) {
+      logger.info('Planned backup restore (dry run)', { mode, tables: tablesToRestore, summary });
+    } else {
+      logger.warning('Restored backup', { mode, tables: tablesToRestore, summary });
+    }
+
+    return {
+      mode,
+      dryRun,
+      backupTimestamp: parsed.metadata?.timestamp,
+      tables: plan,
+      summary,
     };
+  });
+
+  const exportDexieData = createActionWrapper('Export Dexie Data', async (tables?: string[], targetVersion: number = defaultExportVersion) => {
+    const targetStores = storesFor(targetVersion);
+
+    // Fed Simulator expects every table in the export, so default to the full schema
+    const tablesToExport = (tables || tableNames).filter(table => !internalTables.includes(table));
 
     const data: Record<string, any[]> = {};
 
@@ -139,6 +265,7 @@ export function createGeneralTools(db: any) {
           const cleanItem = { ...item };
           // Remove internal MCP fields that might conflict
           delete cleanItem._id;
+          delete cleanItem._rev;
           delete cleanItem.type;
           return cleanItem;
         });
@@ -149,30 +276,35 @@ export function createGeneralTools(db: any) {
       }
     }
 
-    const totalRecords = Object.values(data).reduce((sum, tableData) => sum + tableData.length, 0);
+    // Tables are read in this server's schema version and rewritten for the one asked for
+    const { data: migrated, report: migration } = migrateTables(data, version, targetVersion);
+    const totalRecords = Object.values(migrated).reduce((sum, tableData) => sum + tableData.length, 0);
 
     // Create Dexie-compatible export format matching Fed Simulator X structure
     const dexieExport = {
       formatName: "dexie",
       formatVersion: 1,
       data: {
-        databaseName: "FedSim00017",
-        databaseVersion: 17,
-        tables: Object.keys(data).map(tableName => ({
+        databaseName: databaseName(targetVersion),
+        databaseVersion: targetVersion,
+        tables: Object.keys(migrated).map(tableName => ({
           name: tableName,
-          schema: tableSchemas[tableName] || "++id",
-          rowCount: data[tableName].length
+          // Dexie writes store definitions without spaces
+          schema: (targetStores[tableName] || '++id').replace(/\s+/g, ''),
+          rowCount: migrated[tableName].length
         })),
-        data: Object.keys(data).map(tableName => ({
+        data: Object.keys(migrated).map(tableName => ({
           tableName: tableName,
           inbound: true,
-          rows: data[tableName]
+          rows: migrated[tableName]
         }))
-      }
+      },
+      migration,
     };
 
     logger.success('Created Dexie export', {
       tables: tablesToExport,
+      databaseVersion: targetVersion,
       totalRecords,
       exportSize: JSON.stringify(dexieExport).length,
     });
@@ -180,14 +312,158 @@ export function createGeneralTools(db: any) {
     return dexieExport;
   });
 
+  const importDexieData = createActionWrapper('Import Dexie Data', async (params: {
+    data?: unknown;
+    filePath?: string;
+    tables?: string[];
+    clearExisting?: boolean;
+    remapIds?: boolean;
+  }) => {
+    const dexieExport = await loadDexieExport(params);
+    // Exports without a version are assumed to match this server's schema
+    const sourceVersion = dexieExport.data.databaseVersion ?? version;
+    const { data: tables, report: migration } = migrateTables(
+      Object.fromEntries(dexieExport.data.data.map(({ tableName, rows }) => [tableName, rows || []])),
+      sourceVersion
+    );
+    const results: Record<string, TableImportReport> = {};
+    const skippedTables: string[] = [];
+    const idMaps: IdMaps = {};
+    const remappedRecords: Array<{ tableName: string; tableRef: any; id: number; record: any }> = [];
+    const schemaMismatches: Array<{ table: string; unknownFields: string[]; missingFields: string[] }> = [];
+
+    // Tables this server has no place for are skipped before anything is written
+    const importable = Object.entries(tables).filter(([tableName]) => {
+      if (params.tables && !params.tables.includes(tableName)) return false;
+      const tableRef = fedSimTable(tableName);
+      if (!tableRef || typeof tableRef.put !== 'function') {
+        skippedTables.push(tableName);
+        return false;
+      }
+      return true;
+    });
+
+    let unresolvedReferences = 0;
+    // Every table is imported or none is
+    await db.transaction(async () => {
+      for (const [tableName, rows] of importable) {
+        const tableRef = (db as any)[tableName];
+
+        if (params.clearExisting) {
+          await tableRef.clear();
+        }
+
+        const schemaFields = stores[tableName] ? parseSchemaFields(stores[tableName]) : null;
+        const allowedFields = knownFields(tableName);
+        const unknownFields = new Set<string>();
+        const missingFields = new Set<string>();
+        const report: TableImportReport = { imported: 0, skipped: 0, skippedRows: [] };
+
+        for (const [index, row] of rows.entries()) {
+          if (!row || typeof row !== 'object') {
+            report.skipped++;
+            report.skippedRows.push({ index, reason: 'Row is not an object' });
+            continue;
+          }
+          if (typeof row.id !== 'number') {
+            report.skipped++;
+            report.skippedRows.push({ index, reason: 'Row has no numeric id' });
+            continue;
+          }
+
+          if (schemaFields) {
+            Object.keys(row)
+              .filter(field => field !== '_id' && field !== 'type' && !schemaFields.includes(field))
+              .forEach(field => unknownFields.add(field));
+            schemaFields
+              .filter(field => !(field in row))
+              .forEach(field => missingFields.add(field));
+          }
+
+          // Columns we don't know about are reported as schema mismatches and left behind
+          const { _id, _rev, type, ...record } = allowedFields
+            ? Object.fromEntries(Object.entries(row).filter(([field]) => allowedFields.includes(field)))
+            : row;
+          const errors = validateRecord(tableName, record);
+          if (errors.length > 0) {
+            report.skipped++;
+            report.skippedRows.push({ index, reason: new ValidationError(tableName, errors).message });
+            continue;
+          }
+
+          if (params.remapIds) {
+            // Take a fresh id from the table's counter; references are fixed up once every table is in
+            const { id: originalId, ...fields } = record;
+            const newId = await tableRef.add(fields);
+            (idMaps[tableName] ??= new Map()).set(originalId, newId);
+            remappedRecords.push({ tableName, tableRef, id: newId, record });
+          } else {
+            await tableRef.put(record);
+          }
+          report.imported++;
+        }
+
+        if (unknownFields.size > 0 || missingFields.size > 0) {
+          schemaMismatches.push({
+            table: tableName,
+            unknownFields: [...unknownFields],
+            missingFields: [...missingFields],
+          });
+        }
+        results[tableName] = report;
+      }
+
+      for (const { tableName, tableRef, id, record } of remappedRecords) {
+        const { updates, unresolved } = remapReferences(tableName, record, idMaps);
+        unresolvedReferences += unresolved;
+        if (Object.keys(updates).length > 0) {
+          await tableRef.update(id, updates);
+        }
+      }
+    });
+
+    const totalImported = Object.values(results).reduce((sum, report) => sum + report.imported, 0);
+    const totalSkipped = Object.values(results).reduce((sum, report) => sum + report.skipped, 0);
+
+    logger.success('Imported Dexie data', {
+      source: params.filePath || 'inline',
+      databaseName: dexieExport.data.databaseName,
+      databaseVersion: dexieExport.data.databaseVersion,
+      totalImported,
+      totalSkipped,
+      skippedTables,
+      remapIds: !!params.remapIds,
+    });
+
+    return {
+      source: {
+        databaseName: dexieExport.data.databaseName,
+        databaseVersion: dexieExport.data.databaseVersion,
+      },
+      migration,
+      tables: results,
+      skippedTables,
+      schemaMismatches,
+      totalImported,
+      totalSkipped,
+      ...(params.remapIds && {
+        idMap: Object.fromEntries(
+          Object.entries(idMaps).map(([table, map]) => [table, Object.fromEntries(map)])
+        ),
+        unresolvedReferences,
+      }),
+    };
+  });
+
   const resetDatabase = createActionWrapper('Reset Database', async (tables?: string[]) => {
     const tablesToReset = tables || ['Wrestler', 'Brand', 'Company', 'Production', 'Segment', 'Appearance'];
     const resetResults: Record<string, number> = {};
 
     for (const table of tablesToReset) {
       try {
-        const countBefore = await (db as any)[table].count();
-        await (db as any)[table].clear();
+        const tableRef = fedSimTable(table);
+        const countBefore = await tableRef.count();
+        await tableRef.clear();
         resetResults[table] = countBefore;
       } catch (error) {
         logger.error(`Failed to reset table ${table}`, { error: error instanceof Error ? error.message : String(error) });
@@ -219,34 +495,20 @@ export function createGeneralTools(db: any) {
   }) => {
     const { table, where, orderBy, limit = 50, offset = 0 } = params;
     
-    const tableRef = (db as any)[table];
+    const tableRef = fedSimTable(table);
     if (!tableRef) {
       throw new Error(`Table '${table}' not found`);
     }
 
-    let collection = tableRef.toCollection();
-
-    // Apply filters
-    if (where) {
-      for (const [field, value] of Object.entries(where)) {
-        collection = collection.filter((record: any) => record[field] === value);
-      }
-    }
+    // `where` is a Mango selector, matched the same way on every backend
+    const { docs }: { docs: any[] } = await db.find({ selector: { ...where, type: table } });
 
-    // Apply ordering
     if (orderBy) {
-      collection = collection.sortBy(orderBy);
+      docs.sort((a, b) => collate(a[orderBy], b[orderBy]));
     }
 
-    // Apply pagination
-    if (offset > 0) {
-      collection = collection.offset(offset);
-    }
-    
-    collection = collection.limit(limit);
-
-    const results = await collection.toArray();
-    const totalCount = await tableRef.count();
+    const results = docs.slice(offset, offset + limit);
+    const totalCount = docs.length;
 
     logger.info('Executed table query', {
       table,
@@ -315,7 +577,7 @@ export function createGeneralTools(db: any) {
           tables: { 
             type: 'array',
             items: { type: 'string' },
-            description: 'Specific tables to backup (optional)' 
+            description: 'Specific tables to backup (optional, defaults to every table)' 
           },
         },
       },
@@ -324,6 +586,36 @@ export function createGeneralTools(db: any) {
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
+    ['restore_backup', {
+      name: 'restore_backup',
+      description: 'Restore tables from a backup_data result, replacing or merging with current data',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          backup: {
+            type: ['object', 'string'],
+            description: 'Output of backup_data ({ backup, metadata }) or its JSON string'
+          },
+          mode: {
+            type: 'string',
+            enum: ['replace', 'merge'],
+            description: 'replace: tables end up exactly as in the backup; merge: only create/overwrite records',
+            default: 'merge'
+          },
+          tables: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only restore these tables (optional, defaults to every table in the backup)'
+          },
+          dryRun: { type: 'boolean', description: 'Report what would change without writing anything', default: false },
+        },
+        required: ['backup'],
+      },
+      handler: async (args: any) => {
+        const result = await restoreBackup(args);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
     ['reset_database', {
       name: 'reset_database',
       description: 'Reset (clear) specific database tables - USE WITH CAUTION',
@@ -355,7 +647,7 @@ export function createGeneralTools(db: any) {
           },
           where: { 
             type: 'object',
-            description: 'Filter conditions (field: value pairs)'
+            description: 'Mango selector, e.g. { "alignment": "HEEL", "points": { "$gt": 80 }, "brandIds": { "$elemMatch": { "$eq": 3 } } }. Supports $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $regex, $exists, $elemMatch, $and, $or and $not'
           },
           orderBy: { type: 'string', description: 'Field to order by' },
           limit: { type: 'number', description: 'Maximum results', default: 50 },
@@ -396,12 +688,46 @@ export function createGeneralTools(db: any) {
           tables: { 
             type: 'array',
             items: { type: 'string' },
-            description: 'Specific tables to export (optional, defaults to main tables)' 
+            description: 'Specific tables to export (optional, defaults to every table)' 
+          },
+          targetVersion: {
+            type: 'number',
+            enum: supportedVersions,
+            description: `Fed Simulator X schema version to write (${supportedVersions.join(' or ')}); tables and fields are migrated to match (default ${defaultExportVersion})`
+          },
+        },
+      },
+      handler: async (args: any) => {
+        const result = await exportDexieData(args?.tables, args?.targetVersion);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['import_dexie_data', {
+      name: 'import_dexie_data',
+      description: `Import a Fed Simulator X Dexie export (as produced by export_dexie_data or the game), keeping original ids. Exports must use schema version ${supportedVersions.join(' or ')} (older saves are refused); any other than ${version} are migrated first and the applied steps are reported`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          data: {
+            type: ['object', 'string'],
+            description: 'Dexie export object or its JSON string'
+          },
+          filePath: { type: 'string', description: 'Path to a Dexie export JSON file (alternative to data)' },
+          tables: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only import these tables (optional, defaults to every table in the export)'
+          },
+          clearExisting: { type: 'boolean', description: 'Clear each imported table before loading its rows', default: false },
+          remapIds: {
+            type: 'boolean',
+            description: 'Give imported rows fresh ids instead of keeping the originals, rewriting every reference between them (brandIds, wrestlerIds, championshipId, venueId, ...) to match',
+            default: false
           },
         },
       },
       handler: async (args: any) => {
-        const result = await exportDexieData(args?.tables);
+        const result = await importDexieData(args || {});
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
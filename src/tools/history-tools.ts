@@ -0,0 +1,84 @@
+import { createActionWrapper } from '../actions/action-wrapper.js';
+import type { ChangeSet, HistoryQuery, Journal, JournalEntry } from '../database/journal.js';
+import { logger } from '../utils/logger.js';
+
+const describeEntry = ({ table, id, before, after }: JournalEntry) => ({
+  table,
+  id,
+  action: before === null ? 'created' : after === null ? 'deleted' : 'updated',
+});
+
+// What undo and redo report back: the change set without the full before/after records
+const summarize = (changeSet: ChangeSet) => ({
+  id: changeSet.id,
+  tool: changeSet.tool,
+  operation: changeSet.operation,
+  timestamp: changeSet.timestamp,
+  records: changeSet.changes.map(describeEntry),
+});
+
+export function createHistoryTools(journal: Journal) {
+  const getHistory = createActionWrapper('Get History', async (query: HistoryQuery) => {
+    const changeSets = journal.history(query);
+    logger.info('Retrieved change history', { ...query, count: changeSets.length });
+    return {
+      changeSets,
+      count: changeSets.length,
+    };
+  });
+
+  const undo = createActionWrapper('Undo', async () => {
+    const changeSet = await journal.undo();
+    logger.warning('Undid change', { id: changeSet.id, tool: changeSet.tool, records: changeSet.changes.length });
+    return { undone: summarize(changeSet) };
+  });
+
+  const redo = createActionWrapper('Redo', async () => {
+    const changeSet = await journal.redo();
+    logger.warning('Redid change', { id: changeSet.id, tool: changeSet.tool, records: changeSet.changes.length });
+    return { redone: summarize(changeSet) };
+  });
+
+  return new Map([
+    ['get_history', {
+      name: 'get_history',
+      description: 'List recent changes from the audit journal, newest first, with each record\'s state before and after',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          table: { type: 'string', description: 'Only changes to this table' },
+          id: { type: 'number', description: 'Only changes to this record id (use with table)' },
+          limit: { type: 'number', description: 'Maximum change sets to return', default: 20 },
+        },
+      },
+      handler: async (args: any) => {
+        const result = await getHistory(args || {});
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['undo', {
+      name: 'undo',
+      description: 'Undo the most recent change (everything one tool call wrote), e.g. an accidental penalize_wrestler or reset_database',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      handler: async () => {
+        const result = await undo();
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['redo', {
+      name: 'redo',
+      description: 'Re-apply the most recently undone change, as long as nothing has been written since',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      handler: async () => {
+        const result = await redo();
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+  ]);
+}
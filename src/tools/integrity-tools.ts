@@ -0,0 +1,73 @@
+import { createActionWrapper } from '../actions/action-wrapper.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { checkIntegrity, repairIntegrity, integrityChecks, type Finding, type IntegrityCheck } from '../database/integrity.js';
+import { logger } from '../utils/logger.js';
+
+// Findings grouped by severity, without the bookkeeping repair mode needs
+const groupBySeverity = (findings: Finding[]) => {
+  const grouped: Record<string, Array<Omit<Finding, 'severity' | 'missingIds'>>> = { error: [], warning: [] };
+  for (const { severity, missingIds, ...finding } of findings) {
+    grouped[severity].push(finding);
+  }
+  return grouped;
+};
+
+export function createIntegrityTools(db: TypedFedSimDatabase) {
+  const checkDatabase = createActionWrapper('Check Integrity', async (params: {
+    checks?: IntegrityCheck[];
+    repair?: boolean;
+  }) => {
+    const { checks, repair = false } = params;
+    const selected = (findings: Finding[]) =>
+      checks?.length ? findings.filter(finding => checks.includes(finding.check)) : findings;
+
+    const findings = selected(await checkIntegrity(db));
+    const grouped = groupBySeverity(findings);
+    const report: Record<string, any> = {
+      summary: { errors: grouped.error.length, warnings: grouped.warning.length },
+      findings: grouped,
+    };
+
+    if (repair && findings.length > 0) {
+      const results = await repairIntegrity(db, findings);
+      const remaining = selected(await checkIntegrity(db));
+      report.repair = {
+        repaired: results.filter(result => result.repaired).length,
+        failed: results
+          .filter(result => result.error)
+          .map(({ finding, error }) => ({ table: finding.table, id: finding.id, check: finding.check, error })),
+        remaining: remaining.length,
+      };
+      logger.warning('Repaired database', report.repair);
+    } else {
+      logger.info('Checked database integrity', report.summary);
+    }
+
+    return report;
+  });
+
+  return new Map([
+    ['check_integrity', {
+      name: 'check_integrity',
+      description: 'Scan the whole database for problems: references to deleted records (e.g. appearances of missing ' +
+        'wrestlers, segmentIds of deleted segments), segments no production uses, wrestler stats outside 0-100, ' +
+        'brands with a negative balance and completed productions with no segments. Findings are grouped by severity. ' +
+        'With repair: true each finding is fixed mechanically (can be reverted with undo)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          checks: {
+            type: 'array',
+            items: { type: 'string', enum: integrityChecks },
+            description: 'Only run these checks (optional, defaults to all)',
+          },
+          repair: { type: 'boolean', description: 'Fix what was found', default: false },
+        },
+      },
+      handler: async (args: any) => {
+        const result = await checkDatabase(args || {});
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+  ]);
+}
@@ -1,6 +1,9 @@
-import { FedSimDatabase, Production } from '../database/db.js';
+import type { Production } from '../database/db.js';
 import { DatabaseActions, createActionWrapper } from '../actions/action-wrapper.js';
 import { logger } from '../utils/logger.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { getSandboxes } from '../database/sandbox.js';
+import { summarizeDiff } from '../database/snapshots.js';
 import { 
   calculateSegmentRating, 
   simulateMatch, 
@@ -15,7 +18,7 @@ import {
   randomizeProductionSegments
 } from '../actions/randomization-algorithms.js';
 
-export function createProductionTools(db: FedSimDatabase) {
+export function createProductionTools(db: TypedFedSimDatabase) {
   const dbActions = new DatabaseActions(db);
 
   const createProduction = createActionWrapper('Create Production', async (productionData: Partial<Production>) => {
@@ -54,8 +57,10 @@ export function createProductionTools(db: FedSimDatabase) {
     return createdProduction;
   });
 
-  const simulateProduction = createActionWrapper('Simulate Production', async (productionId: number) => {
-    const production = await db.Production.get(productionId);
+  // Runs against the universe unless a sandbox copy is passed as `target`. A failure
+  // part way through rolls back every appearance, wrestler and segment already updated
+  const simulateProduction = createActionWrapper('Simulate Production', (productionId: number, target: TypedFedSimDatabase = db) => target.transaction(async () => {
+    const production = await target.Production.get(productionId);
     if (!production) {
       throw new Error(`Production with ID ${productionId} not found`);
     }
@@ -65,7 +70,7 @@ export function createProductionTools(db: FedSimDatabase) {
     }
 
     // Get segments for this production
-    const segments = await db.Segment
+    const segments = await target.Segment
       .filter(segment => production.segmentIds.includes(segment.id!))
       .toArray();
 
@@ -78,14 +83,14 @@ export function createProductionTools(db: FedSimDatabase) {
     for (const segment of segments) {
       if (!segment.complete) {
         // Get appearances for this segment
-        const appearances = await db.Appearance
+        const appearances = await target.Appearance
           .filter(appearance => segment.appearanceIds.includes(appearance.id!))
           .toArray();
 
         // Get wrestler data for each appearance
         const appearancesWithWrestlers = await Promise.all(
           appearances.map(async (appearance) => {
-            const wrestler = await db.Wrestler.get(appearance.wrestlerId);
+            const wrestler = await target.Wrestler.get(appearance.wrestlerId);
             return { ...appearance, wrestler };
           })
         );
@@ -102,7 +107,7 @@ export function createProductionTools(db: FedSimDatabase) {
         
         // Update appearances with match results
         for (const appearance of simulatedAppearances) {
-          await db.Appearance.update(appearance.id!, {
+          await target.Appearance.update(appearance.id!, {
             winner: appearance.winner,
             loser: appearance.loser,
           });
@@ -114,12 +119,12 @@ export function createProductionTools(db: FedSimDatabase) {
             const newLosses = wrestler.losses + (appearance.loser ? 1 : 0);
             const newStreak = appearance.winner ? wrestler.streak + 1 : 0;
             
-            await db.Wrestler.update(wrestler.id!, {
+            await target.Wrestler.update(wrestler.id!, {
               wins: newWins,
               losses: newLosses,
               streak: newStreak,
-              morale: Math.min(100, wrestler.morale + (appearance.winner ? 5 : -2)),
-              popularity: Math.min(100, wrestler.popularity + (appearance.winner ? 2 : -1)),
+              morale: Math.max(0, Math.min(100, wrestler.morale + (appearance.winner ? 5 : -2))),
+              popularity: Math.max(0, Math.min(100, wrestler.popularity + (appearance.winner ? 2 : -1))),
             });
           }
         }
@@ -128,7 +133,7 @@ export function createProductionTools(db: FedSimDatabase) {
         totalDuration += segment.duration || 15; // Default 15 minutes
 
         // Update segment as complete with real rating
-        await db.Segment.update(segment.id!, { 
+        await target.Segment.update(segment.id!, { 
           complete: true, 
           rating: Math.round(segmentRating)
         });
@@ -153,7 +158,7 @@ export function createProductionTools(db: FedSimDatabase) {
     }
 
     // Get all wrestlers involved in the production for attendance calculation
-    const allWrestlerIds = await db.Appearance
+    const allWrestlerIds = await target.Appearance
       .filter(appearance => 
         segments.some(segment => segment.appearanceIds.includes(appearance.id!))
       )
@@ -161,7 +166,7 @@ export function createProductionTools(db: FedSimDatabase) {
       .then(appearances => [...new Set(appearances.map(a => a.wrestlerId))]);
     
     const wrestlers = await Promise.all(
-      allWrestlerIds.map(id => db.Wrestler.get(id))
+      allWrestlerIds.map(id => target.Wrestler.get(id))
     ).then(wrestlers => wrestlers.filter(Boolean));
 
     // Calculate show results using Fed Simulator's algorithms
@@ -171,7 +176,7 @@ export function createProductionTools(db: FedSimDatabase) {
     const viewers = calculateViewership(attendance);
 
     // Update production
-    await db.Production.update(productionId, {
+    await target.Production.update(productionId, {
       complete: true,
       wrestlersCost,
       segmentsCost: 0,
@@ -182,7 +187,7 @@ export function createProductionTools(db: FedSimDatabase) {
       step: 100,
     });
 
-    const completedProduction = await db.Production.get(productionId);
+    const completedProduction = await target.Production.get(productionId);
 
     logger.success('Production simulation complete', {
       production: production.name,
@@ -208,6 +213,28 @@ export function createProductionTools(db: FedSimDatabase) {
         segmentResults,
       },
     };
+  }));
+
+  const simulateInSandbox = createActionWrapper('Simulate Production in Sandbox', async (productionId: number) => {
+    const sandboxes = getSandboxes(db);
+    const sandbox = await sandboxes.create(`simulate_production ${productionId}`);
+    const result = await simulateProduction(productionId, sandbox.db);
+    if (!result.success) {
+      sandboxes.discard(sandbox.id);
+      throw new Error(result.error);
+    }
+
+    const changes = summarizeDiff(await sandboxes.changes(sandbox.id));
+    logger.info('Simulated production in sandbox', { productionId, sandboxId: sandbox.id, changes });
+
+    return {
+      ...result.data,
+      sandbox: {
+        id: sandbox.id,
+        changes,
+        note: `Nothing was written to the universe. Use commit_sandbox with id ${sandbox.id} to keep these results or discard_sandbox to drop them.`,
+      },
+    };
   });
 
   const getProductionReport = createActionWrapper('Get Production Report', async (productionId: number) => {
@@ -304,11 +331,11 @@ export function createProductionTools(db: FedSimDatabase) {
     return productionsWithDetails;
   });
 
-  const randomizeProduction = createActionWrapper('Randomize Production', async (productionId: number, options?: {
+  const randomizeProduction = createActionWrapper('Randomize Production', (productionId: number, options?: {
     minPoints?: number;
     maxSegments?: number;
     createSegments?: boolean;
-  }) => {
+  }) => db.transaction(async () => {
     const production = await db.Production.get(productionId);
     if (!production) {
       throw new Error(`Production with ID ${productionId} not found`);
@@ -452,13 +479,13 @@ export function createProductionTools(db: FedSimDatabase) {
         minPointsUsed: options?.minPoints || 30,
       },
     };
-  });
+  }));
 
-  const createRandomSegment = createActionWrapper('Create Random Segment', async (productionId: number, options?: {
+  const createRandomSegment = createActionWrapper('Create Random Segment', (productionId: number, options?: {
     segmentType?: string;
     minPoints?: number;
     wrestlerCount?: number;
-  }) => {
+  }) => db.transaction(async () => {
     const production = await db.Production.get(productionId);
     if (!production) {
       throw new Error(`Production with ID ${productionId} not found`);
@@ -530,7 +557,7 @@ export function createProductionTools(db: FedSimDatabase) {
       wrestlers: segmentWrestlers,
       appearances,
     };
-  });
+  }));
 
   return new Map([
     ['create_production', {
@@ -566,11 +593,16 @@ export function createProductionTools(db: FedSimDatabase) {
         type: 'object',
         properties: {
           id: { type: 'number', description: 'Production ID' },
+          sandbox: {
+            type: 'boolean',
+            description: 'Simulate on a throwaway copy of the universe; keep the results with commit_sandbox',
+            default: false
+          },
         },
         required: ['id'],
       },
       handler: async (args: any) => {
-        const result = await simulateProduction(args.id);
+        const result = args.sandbox ? await simulateInSandbox(args.id) : await simulateProduction(args.id);
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
@@ -621,6 +653,7 @@ export function createProductionTools(db: FedSimDatabase) {
               venueId: { type: 'number' },
             }
           },
+          expectedRevision: { type: 'string', description: 'Revision (_rev) the changes are based on; the update fails with a conflict if the production has changed since' },
         },
         required: ['id', 'updates'],
       },
@@ -628,7 +661,7 @@ export function createProductionTools(db: FedSimDatabase) {
         if (args.updates.date) {
           args.updates.date = new Date(args.updates.date);
         }
-        const result = await dbActions.updateRecord('Production', args.id, args.updates);
+        const result = await dbActions.updateRecord('Production', args.id, args.updates, args.expectedRevision);
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
@@ -683,7 +716,7 @@ export function createProductionTools(db: FedSimDatabase) {
     }],
     ['delete_production', {
       name: 'delete_production',
-      description: 'Delete a production (permanent)',
+      description: 'Delete a production and its segments (moved to the trash, where restore_from_trash can bring them back)',
       inputSchema: {
         type: 'object',
         properties: {
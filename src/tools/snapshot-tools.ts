@@ -0,0 +1,203 @@
+import { createActionWrapper } from '../actions/action-wrapper.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { captureTables, diffTables, applyDiff, summarizeDiff, type SnapshotStore } from '../database/snapshots.js';
+import { getSandboxes } from '../database/sandbox.js';
+import { logger } from '../utils/logger.js';
+
+const countRecords = (tables: Record<string, any[]>) =>
+  Object.values(tables).reduce((sum, records) => sum + records.length, 0);
+
+export function createSnapshotTools(db: TypedFedSimDatabase, store: SnapshotStore) {
+  const sandboxes = getSandboxes(db);
+
+  const createSnapshot = createActionWrapper('Create Snapshot', async (params: {
+    name: string;
+    description?: string;
+    overwrite?: boolean;
+  }) => {
+    if (store.has(params.name) && !params.overwrite) {
+      throw new Error(`Snapshot '${params.name}' already exists (pass overwrite: true to replace it)`);
+    }
+
+    const state = await captureTables(db);
+    const snapshot = { name: params.name, description: params.description, createdAt: new Date(), ...state };
+    await store.save(snapshot);
+
+    const totalRecords = countRecords(state.tables);
+    logger.success('Created snapshot', { name: snapshot.name, totalRecords });
+    return {
+      name: snapshot.name,
+      description: snapshot.description,
+      createdAt: snapshot.createdAt,
+      totalRecords,
+    };
+  });
+
+  const listSnapshots = createActionWrapper('List Snapshots', async () => {
+    return store.list().map(snapshot => ({
+      name: snapshot.name,
+      description: snapshot.description,
+      createdAt: snapshot.createdAt,
+      totalRecords: countRecords(snapshot.tables),
+    }));
+  });
+
+  const restoreSnapshot = createActionWrapper('Restore Snapshot', async (name: string) => {
+    const snapshot = store.get(name);
+    const current = await captureTables(db);
+    const diff = diffTables(current.tables, snapshot.tables);
+    await applyDiff(db, diff, snapshot);
+
+    const summary = summarizeDiff(diff);
+    logger.warning('Restored snapshot', { name, summary });
+    return {
+      name,
+      restored: summary,
+      tables: Object.keys(diff),
+    };
+  });
+
+  // Differences going from the snapshot to the current universe, or to another snapshot
+  const diffSnapshot = createActionWrapper('Diff Snapshot', async (name: string, against?: string) => {
+    const snapshot = store.get(name);
+    const other = against ? store.get(against).tables : (await captureTables(db)).tables;
+    const diff = diffTables(snapshot.tables, other);
+
+    return {
+      from: name,
+      to: against ?? 'current',
+      summary: summarizeDiff(diff),
+      tables: diff,
+    };
+  });
+
+  const listSandboxes = createActionWrapper('List Sandboxes', async () => {
+    return Promise.all(sandboxes.list().map(async sandbox => ({
+      id: sandbox.id,
+      label: sandbox.label,
+      createdAt: sandbox.createdAt,
+      changes: summarizeDiff(await sandboxes.changes(sandbox.id)),
+    })));
+  });
+
+  const commitSandbox = createActionWrapper('Commit Sandbox', async (id: number) => {
+    const diff = await sandboxes.commit(id);
+    const summary = summarizeDiff(diff);
+    logger.success('Committed sandbox', { id, summary });
+    return {
+      id,
+      committed: summary,
+      tables: Object.keys(diff),
+    };
+  });
+
+  const discardSandbox = createActionWrapper('Discard Sandbox', async (id?: number) => {
+    const discarded = sandboxes.discard(id);
+    logger.info('Discarded sandboxes', { discarded });
+    return { discarded };
+  });
+
+  return new Map([
+    ['create_snapshot', {
+      name: 'create_snapshot',
+      description: 'Save a named snapshot of every table, e.g. before trying bookings for a pay-per-view',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Snapshot name (letters, digits, -, _ and .)' },
+          description: { type: 'string', description: 'What the snapshot is for' },
+          overwrite: { type: 'boolean', description: 'Replace an existing snapshot with the same name', default: false },
+        },
+        required: ['name'],
+      },
+      handler: async (args: any) => {
+        const result = await createSnapshot(args);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['list_snapshots', {
+      name: 'list_snapshots',
+      description: 'List saved snapshots, oldest first',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      handler: async () => {
+        const result = await listSnapshots();
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['restore_snapshot', {
+      name: 'restore_snapshot',
+      description: 'Return every table to the state saved in a snapshot (can be reverted with undo)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Snapshot name' },
+        },
+        required: ['name'],
+      },
+      handler: async (args: any) => {
+        const result = await restoreSnapshot(args.name);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['diff_snapshot', {
+      name: 'diff_snapshot',
+      description: 'Show records added, removed and changed (field by field) since a snapshot',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Snapshot to compare from' },
+          against: { type: 'string', description: 'Snapshot to compare to (optional, defaults to the current universe)' },
+        },
+        required: ['name'],
+      },
+      handler: async (args: any) => {
+        const result = await diffSnapshot(args.name, args.against);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['list_sandboxes', {
+      name: 'list_sandboxes',
+      description: 'List open sandboxes from simulate_production with sandbox: true, with what each would change',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      handler: async () => {
+        const result = await listSandboxes();
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['commit_sandbox', {
+      name: 'commit_sandbox',
+      description: 'Write a sandbox\'s results to the universe; fails if the same records changed in the universe meanwhile',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'number', description: 'Sandbox ID' },
+        },
+        required: ['id'],
+      },
+      handler: async (args: any) => {
+        const result = await commitSandbox(args.id);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['discard_sandbox', {
+      name: 'discard_sandbox',
+      description: 'Throw away a sandbox, or every sandbox when no id is given',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'number', description: 'Sandbox ID (optional)' },
+        },
+      },
+      handler: async (args: any) => {
+        const result = await discardSandbox(args?.id);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+  ]);
+}
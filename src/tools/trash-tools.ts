@@ -0,0 +1,83 @@
+import { createActionWrapper } from '../actions/action-wrapper.js';
+import type { TypedFedSimDatabase } from '../types/database.js';
+import { listTrash, restoreFromTrash, emptyTrash, type TrashEntry } from '../database/trash.js';
+import { logger } from '../utils/logger.js';
+
+// What a trash entry holds, without the full copies of the records
+const describeEntry = ({ id, table, recordId, name, deletedAt, records, references }: TrashEntry) => ({
+  id,
+  table,
+  recordId,
+  name,
+  deletedAt,
+  cascaded: records.slice(1).map(({ table: childTable, record }) => ({ table: childTable, id: record.id })),
+  references: references.length,
+});
+
+export function createTrashTools(db: TypedFedSimDatabase) {
+  const listEntries = createActionWrapper('List Trash', async (table?: string) => {
+    const entries = await listTrash(db, { table });
+    logger.info('Listed trash', { table, count: entries.length });
+    return { count: entries.length, entries: entries.map(describeEntry) };
+  });
+
+  const restoreEntry = createActionWrapper('Restore From Trash', async (id: number) => {
+    const result = await restoreFromTrash(db, id);
+    logger.success(`Restored trash entry ${id}`, result);
+    return { id, ...result };
+  });
+
+  const emptyEntries = createActionWrapper('Empty Trash', async (params: { ids?: number[]; table?: string }) => {
+    const removed = await emptyTrash(db, params);
+    logger.warning('Emptied trash', { ...params, removed: removed.length });
+    return { removed: removed.length, ids: removed };
+  });
+
+  return new Map([
+    ['list_trash', {
+      name: 'list_trash',
+      description: 'List deleted records waiting in the trash, newest first, with what was deleted along with them',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          table: { type: 'string', description: 'Only show deleted records of this table (e.g. Wrestler)' },
+        },
+      },
+      handler: async (args: any) => {
+        const result = await listEntries(args?.table);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['restore_from_trash', {
+      name: 'restore_from_trash',
+      description: 'Bring a deleted record back from the trash with its original id, together with the records ' +
+        'deleted along with it (e.g. segments of a production) and the references other records had to it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'number', description: 'Trash entry ID (from list_trash)' },
+        },
+        required: ['id'],
+      },
+      handler: async (args: any) => {
+        const result = await restoreEntry(args.id);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['empty_trash', {
+      name: 'empty_trash',
+      description: 'Permanently remove entries from the trash; without ids or table the whole trash is emptied',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ids: { type: 'array', items: { type: 'number' }, description: 'Trash entry IDs to remove (optional)' },
+          table: { type: 'string', description: 'Only remove deleted records of this table (optional)' },
+        },
+      },
+      handler: async (args: any) => {
+        const result = await emptyEntries(args || {});
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+  ]);
+}
@@ -0,0 +1,120 @@
+import { createActionWrapper } from '../actions/action-wrapper.js';
+import { tableNames } from '../database/schema.js';
+import type { Universe, UniverseManager } from '../database/universes.js';
+import { logger } from '../utils/logger.js';
+
+async function describeUniverse(universe: Universe, current: Universe) {
+  let totalRecords = 0;
+  for (const table of tableNames) {
+    totalRecords += await (universe.db as any)[table].count();
+  }
+  return {
+    name: universe.name,
+    current: universe === current,
+    totalRecords,
+    dataDir: universe.dataDir,
+  };
+}
+
+export interface UniverseToolsOptions {
+  // How many clients are connected; the current universe is shared by all of them
+  openSessions?: () => number;
+}
+
+export function createUniverseTools(universes: UniverseManager, options: UniverseToolsOptions = {}) {
+  // Switching under other clients would silently move their next writes to another universe
+  const assertSoleSession = () => {
+    const sessions = options.openSessions?.() ?? 1;
+    if (sessions > 1) {
+      throw new Error(`Cannot switch universes while ${sessions} sessions are open; every session shares the current universe`);
+    }
+  };
+
+  const createUniverse = createActionWrapper('Create Universe', async (name: string, switchTo = false) => {
+    if (switchTo) assertSoleSession();
+    const universe = await universes.create(name);
+    if (switchTo) universes.switch(name);
+
+    logger.success('Created universe', { name, switchTo });
+    return describeUniverse(universe, universes.current());
+  });
+
+  const listUniverses = createActionWrapper('List Universes', async () => {
+    const current = universes.current();
+    return Promise.all(universes.list().map(universe => describeUniverse(universe, current)));
+  });
+
+  const switchUniverse = createActionWrapper('Switch Universe', async (name: string) => {
+    assertSoleSession();
+    const universe = universes.switch(name);
+    logger.info('Switched universe', { name });
+    return describeUniverse(universe, universe);
+  });
+
+  const deleteUniverse = createActionWrapper('Delete Universe', async (name: string) => {
+    await universes.delete(name);
+    logger.warning('Deleted universe', { name });
+    return { name, deleted: true };
+  });
+
+  return new Map([
+    ['create_universe', {
+      name: 'create_universe',
+      description: 'Create a new, empty universe (save slot) with its own tables, id counters, history and snapshots',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Universe name (letters, digits, -, _ and ., not starting with .)' },
+          switchTo: { type: 'boolean', description: 'Make it the current universe (refused while other clients are connected)', default: false },
+        },
+        required: ['name'],
+      },
+      handler: async (args: any) => {
+        const result = await createUniverse(args.name, args.switchTo);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['list_universes', {
+      name: 'list_universes',
+      description: 'List universes and which one is current',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      handler: async () => {
+        const result = await listUniverses();
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['switch_universe', {
+      name: 'switch_universe',
+      description: 'Make another universe current; every other tool then works on it. Refused while other clients are connected over HTTP',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Universe name' },
+        },
+        required: ['name'],
+      },
+      handler: async (args: any) => {
+        const result = await switchUniverse(args.name);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+    ['delete_universe', {
+      name: 'delete_universe',
+      description: 'Delete a universe and all of its data - USE WITH CAUTION. The current and default universes cannot be deleted',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Universe name' },
+        },
+        required: ['name'],
+      },
+      handler: async (args: any) => {
+        const result = await deleteUniverse(args.name);
+        return result.success ? result.data : `Error: ${result.error}`;
+      },
+    }],
+  ]);
+}
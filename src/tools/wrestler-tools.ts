@@ -1,9 +1,58 @@
-import { FedSimDatabase, Wrestler } from '../database/db.js';
+import type { Wrestler } from '../database/db.js';
 import { DatabaseActions, createActionWrapper } from '../actions/action-wrapper.js';
 import { logger } from '../utils/logger.js';
-import type { PouchDBSelector, WrestlerSearchQuery } from '../types/database.js';
+import { RevisionConflictError } from '../database/errors.js';
+import type { PouchDBSelector, WrestlerSearchQuery, TypedFedSimDatabase } from '../types/database.js';
 
-export function createWrestlerTools(db: FedSimDatabase) {
+// Fields a new wrestler starts with; CSV imports fill missing columns from here too
+export function defaultWrestler(): Partial<Wrestler> {
+  return {
+    name: 'New Wrestler',
+    desc: '',
+    image: null,
+    images: [],
+    color: '#fff',
+    backgroundColor: '#999',
+    brandIds: [],
+    entranceVideoUrl: '',
+    pushed: false,
+    remainingAppearances: 52,
+    contractType: 'FULL',
+    contractExpires: new Date(new Date().setDate(new Date().getDate() + 365)),
+    status: 'SIGNED',
+    billedFrom: '',
+    region: '',
+    country: '',
+    dob: null,
+    height: 180,
+    weight: 170,
+    alignment: 'NEUTRAL',
+    gender: 'MALE',
+    role: 'DEFAULT',
+    followers: 1000,
+    losses: 0,
+    wins: 0,
+    streak: 0,
+    draws: 0,
+    points: 50,
+    morale: 50,
+    stamina: 50,
+    popularity: 0,
+    charisma: 50,
+    damage: 0,
+    active: true,
+    retired: false,
+    cost: 100,
+    special: '',
+    finisher: '',
+    musicUrl: '',
+  };
+}
+
+// How often a stat change is recomputed when other writes keep landing in between
+const STAT_CHANGE_ATTEMPTS = 3;
+
+export function createWrestlerTools(db: TypedFedSimDatabase) {
   const dbActions = new DatabaseActions(db);
 
   // Helper function to build safe database selectors
@@ -26,23 +75,36 @@ export function createWrestlerTools(db: FedSimDatabase) {
     return selector;
   };
 
-  // Wrestler-specific actions
-  const boostWrestler = createActionWrapper('Boost Wrestler', async (id: number) => {
-    const wrestler = await db.Wrestler.get(id);
-    if (!wrestler) {
-      throw new Error(`Wrestler with ID ${id} not found`);
-    }
+  // Apply a change worked out from the wrestler's current stats. The update is tied to the
+  // revision just read, so a concurrent write is never overwritten: the change is recomputed
+  // from the new stats instead, and reported as a conflict if that keeps happening.
+  const changeStats = async (id: number, change: (wrestler: Wrestler) => Partial<Wrestler>) => {
+    for (let attempt = 1; ; attempt++) {
+      const wrestler = await db.Wrestler.get(id);
+      if (!wrestler) {
+        throw new Error(`Wrestler with ID ${id} not found`);
+      }
 
-    const updates = {
-      morale: Math.min(100, wrestler.morale + 5),
-      popularity: Math.min(100, wrestler.popularity + 5),
-      damage: Math.max(0, wrestler.damage - 2),
-      charisma: Math.min(100, wrestler.charisma + 3),
-      stamina: Math.min(100, wrestler.stamina + 3),
-      points: Math.min(100, wrestler.points + 2),
-    };
+      const updates = change(wrestler);
+      try {
+        await db.Wrestler.update(id, updates, { expectedRevision: wrestler._rev });
+        return { wrestler, updates };
+      } catch (error) {
+        if (!(error instanceof RevisionConflictError) || attempt >= STAT_CHANGE_ATTEMPTS) throw error;
+      }
+    }
+  };
 
-    await db.Wrestler.update(id, updates);
+  // Wrestler-specific actions
+  const boostWrestler = createActionWrapper('Boost Wrestler', async (id: number) => {
+    const { wrestler, updates } = await changeStats(id, current => ({
+      morale: Math.min(100, current.morale + 5),
+      popularity: Math.min(100, current.popularity + 5),
+      damage: Math.max(0, current.damage - 2),
+      charisma: Math.min(100, current.charisma + 3),
+      stamina: Math.min(100, current.stamina + 3),
+      points: Math.min(100, current.points + 2),
+    }));
     const updatedWrestler = await db.Wrestler.get(id);
     
     logger.success('Wrestler boosted', { 
@@ -62,20 +124,13 @@ export function createWrestlerTools(db: FedSimDatabase) {
   });
 
   const penalizeWrestler = createActionWrapper('Penalize Wrestler', async (id: number) => {
-    const wrestler = await db.Wrestler.get(id);
-    if (!wrestler) {
-      throw new Error(`Wrestler with ID ${id} not found`);
-    }
-
-    const updates = {
-      morale: Math.max(0, wrestler.morale - 3),
-      popularity: Math.max(0, wrestler.popularity - 3),
-      damage: Math.min(100, wrestler.damage + 5),
-      stamina: Math.max(0, wrestler.stamina - 3),
-      points: Math.max(0, wrestler.points - 2),
-    };
-
-    await db.Wrestler.update(id, updates);
+    const { wrestler, updates } = await changeStats(id, current => ({
+      morale: Math.max(0, current.morale - 3),
+      popularity: Math.max(0, current.popularity - 3),
+      damage: Math.min(100, current.damage + 5),
+      stamina: Math.max(0, current.stamina - 3),
+      points: Math.max(0, current.points - 2),
+    }));
     const updatedWrestler = await db.Wrestler.get(id);
     
     logger.warning('Wrestler penalized', { 
@@ -94,49 +149,7 @@ export function createWrestlerTools(db: FedSimDatabase) {
   });
 
   const createWrestler = createActionWrapper('Create Wrestler', async (wrestlerData: Partial<Wrestler>) => {
-    const defaultWrestler: Partial<Wrestler> = {
-      name: 'New Wrestler',
-      desc: '',
-      image: null,
-      images: [],
-      color: '#fff',
-      backgroundColor: '#999',
-      brandIds: [],
-      entranceVideoUrl: '',
-      pushed: false,
-      remainingAppearances: 52,
-      contractType: 'FULL',
-      contractExpires: new Date(new Date().setDate(new Date().getDate() + 365)),
-      status: 'SIGNED',
-      billedFrom: '',
-      region: '',
-      country: '',
-      dob: null,
-      height: 180,
-      weight: 170,
-      alignment: 'NEUTRAL',
-      gender: 'MALE',
-      role: 'DEFAULT',
-      followers: 1000,
-      losses: 0,
-      wins: 0,
-      streak: 0,
-      draws: 0,
-      points: 50,
-      morale: 50,
-      stamina: 50,
-      popularity: 0,
-      charisma: 50,
-      damage: 0,
-      active: true,
-      retired: false,
-      cost: 100,
-      special: '',
-      finisher: '',
-      musicUrl: '',
-    };
-
-    const newWrestler = { ...defaultWrestler, ...wrestlerData };
+    const newWrestler = { ...defaultWrestler(), ...wrestlerData };
     const id = await db.Wrestler.add(newWrestler as Wrestler);
     const createdWrestler = await db.Wrestler.get(id);
     
@@ -397,17 +410,18 @@ export function createWrestlerTools(db: FedSimDatabase) {
               damage: { type: 'number', minimum: 0, maximum: 100 },
             }
           },
+          expectedRevision: { type: 'string', description: 'Revision (_rev) the changes are based on; the update fails with a conflict if the wrestler has changed since' },
         },
         required: ['id', 'updates'],
       },
       handler: async (args: any) => {
-        const result = await dbActions.updateRecord('Wrestler', args.id, args.updates);
+        const result = await dbActions.updateRecord('Wrestler', args.id, args.updates, args.expectedRevision);
         return result.success ? result.data : `Error: ${result.error}`;
       },
     }],
     ['delete_wrestler', {
       name: 'delete_wrestler',
-      description: 'Delete a wrestler (permanent)',
+      description: 'Delete a wrestler (moved to the trash, where restore_from_trash can bring them back)',
       inputSchema: {
         type: 'object',
         properties: {
@@ -0,0 +1,196 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_PATH = '/mcp';
+export const HEALTH_PATH = '/health';
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  // Connect a fresh MCP server to the transport of a new session
+  connect(transport: StreamableHTTPServerTransport): Promise<void>;
+  // Extra fields for the health endpoint, e.g. the current universe
+  health?(): Record<string, unknown>;
+  // Browser origins allowed besides pages served from this machine
+  allowedOrigins?: string[];
+  // Close a session after this many milliseconds without an open request
+  sessionIdleTimeout?: number;
+}
+
+export interface HttpServer {
+  url: string;
+  sessionCount(): number;
+  // Stop taking requests, end every session and wait for open connections to finish
+  close(): Promise<void>;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+// JSON-RPC error without a request id, for requests refused before they reach a session
+const sendRpcError = (res: ServerResponse, status: number, code: number, message: string) => {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+};
+
+// Browsers always send Origin; refusing foreign ones blocks DNS rebinding. Other clients send none
+function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (origin === undefined || allowedOrigins.includes(origin)) return true;
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serve MCP over Streamable HTTP at `/mcp`. Each client gets a session
+ * (`Mcp-Session-Id` header) with its own MCP server, all sharing the same
+ * universes; sessions end with a DELETE, after `sessionIdleTimeout` without
+ * requests, or when the server closes. Browser requests from other origins
+ * than this machine and `allowedOrigins` are refused with 403.
+ * `GET /health` reports whether the server is up and how many sessions are open.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  // Requests still open per transport, and the timer that ends the session once there are none
+  const activity = new Map<StreamableHTTPServerTransport, { open: number; idle?: NodeJS.Timeout }>();
+  const idleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+  let closing = false;
+
+  const track = (transport: StreamableHTTPServerTransport, res: ServerResponse) => {
+    const state = activity.get(transport) ?? { open: 0 };
+    activity.set(transport, state);
+    clearTimeout(state.idle);
+    state.open++;
+    res.once('close', () => {
+      state.open--;
+      if (state.open === 0 && activity.has(transport)) {
+        state.idle = setTimeout(() => void transport.close(), idleTimeout).unref();
+      }
+    });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, closing ? 503 : 200, {
+        status: closing ? 'shutting-down' : 'ok',
+        sessions: transports.size,
+        ...options.health?.(),
+      });
+      return;
+    }
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: `Not found: ${pathname}` });
+      return;
+    }
+    if (closing) {
+      sendRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+    const { origin } = req.headers;
+    if (!isAllowedOrigin(origin, options.allowedOrigins ?? [])) {
+      sendRpcError(res, 403, -32000, `Forbidden: origin ${origin} is not allowed`);
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+    if (sessionId !== undefined && !transport) {
+      sendRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJson(req);
+      } catch {
+        sendRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+        return;
+      }
+    }
+
+    if (!transport) {
+      if (!isInitializeRequest(body)) {
+        sendRpcError(res, 400, -32000, 'Bad Request: send an initialize request to start a session');
+        return;
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => transports.set(id, created),
+      });
+      await options.connect(created);
+      // connect() installs the server's own close handler, so chain onto it
+      const serverClosed = created.onclose;
+      created.onclose = () => {
+        if (created.sessionId) transports.delete(created.sessionId);
+        clearTimeout(activity.get(created)?.idle);
+        activity.delete(created);
+        serverClosed?.();
+      };
+      track(created, res);
+      try {
+        await created.handleRequest(req, res, body);
+      } finally {
+        // The SDK refused the initialize request (e.g. a missing Accept header), so no session began
+        if (!created.sessionId) await created.close();
+      }
+      return;
+    }
+
+    track(transport, res);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host ?? '127.0.0.1', () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    sessionCount: () => transports.size,
+    close: async () => {
+      closing = true;
+      const stopped = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      for (const transport of [...transports.values()]) {
+        await transport.close();
+      }
+      // Idle keep-alive connections would otherwise hold the server open
+      httpServer.closeIdleConnections();
+      await stopped;
+    },
+  };
+}
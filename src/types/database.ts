@@ -6,7 +6,8 @@ export interface PouchDBSelector {
   active?: boolean;
   alignment?: 'FACE' | 'HEEL' | 'NEUTRAL';
   brandIds?: {
-    $elemMatch?: number;
+    // A bare id is shorthand for `{ $eq: id }`
+    $elemMatch?: number | { [operator: string]: any };
   };
 }
 
@@ -42,34 +43,92 @@ export interface TypedDatabase {
   find<T>(options: PouchDBFindOptions): Promise<PouchDBFindResult<T>>;
 }
 
+/**
+ * Dexie-style collection shared by every backend. Methods chain without running
+ * anything; awaiting a collection (or calling `toArray`) resolves its rows.
+ */
+export interface Collection<T> extends PromiseLike<T[]> {
+  filter(predicate: (item: T) => boolean): Collection<T>;
+  and(predicate: (item: T) => boolean): Collection<T>;
+  limit(count: number): Collection<T>;
+  offset(count: number): Collection<T>;
+  reverse(): Collection<T>;
+  sortBy(field: string): Promise<T[]>;
+  toArray(): Promise<T[]>;
+  first(): Promise<T | undefined>;
+  last(): Promise<T | undefined>;
+  count(): Promise<number>;
+  each(callback: (item: T) => void): Promise<void>;
+  primaryKeys(): Promise<number[]>;
+}
+
+// Returned by `table.where(field)`; results are ordered by that field like a Dexie index
+export interface WhereClause<T> {
+  equals(value: any): Collection<T>;
+  notEqual(value: any): Collection<T>;
+  anyOf(values: any[]): Collection<T>;
+  noneOf(values: any[]): Collection<T>;
+  above(value: any): Collection<T>;
+  aboveOrEqual(value: any): Collection<T>;
+  below(value: any): Collection<T>;
+  belowOrEqual(value: any): Collection<T>;
+  between(lower: any, upper: any, includeLower?: boolean, includeUpper?: boolean): Collection<T>;
+  startsWith(prefix: string): Collection<T>;
+  startsWithIgnoreCase(prefix: string): Collection<T>;
+  equalsIgnoreCase(value: string): Collection<T>;
+  // Not in Dexie: array fields containing a value, case-insensitive substring match
+  contains(value: any): Collection<T>;
+  like(text: string): Collection<T>;
+}
+
 // Table interface for generic operations
 export interface DatabaseTable<T> {
   get(id: number): Promise<T | undefined>;
   add(item: Omit<T, '_id' | 'id' | 'type'>): Promise<number>;
-  update(id: number, updates: Partial<T>): Promise<void>;
+  put(item: Omit<T, '_id' | 'type'> & { id: number }): Promise<number>;
+  // Throws RecordNotFoundError for a missing id and RevisionConflictError when `expectedRevision` is stale
+  update(id: number, updates: Partial<T>, options?: import('../database/revisions.js').UpdateOptions): Promise<void>;
   delete(id: number): Promise<void>;
   count(): Promise<number>;
   clear(): Promise<void>;
+  getSequence(): Promise<number>;
+  setSequence(next: number): Promise<void>;
   toArray(): Promise<T[]>;
-  where(field: string): {
-    equals(value: any): Promise<T[]>;
-  };
-  toCollection(): {
-    limit(count: number): {
-      toArray(): Promise<T[]>;
-    };
-    toArray(): Promise<T[]>;
-  };
+  where(field: string): WhereClause<T>;
+  filter(predicate: (item: T) => boolean): Collection<T>;
+  orderBy(field: string): Collection<T>;
+  toCollection(): Collection<T>;
+  limit(count: number): Collection<T>;
+  offset(count: number): Collection<T>;
+  reverse(): Collection<T>;
 }
 
 // Valid table names in the database
 export type TableName = 'Wrestler' | 'Brand' | 'Company' | 'Production' | 'Championship' | 'Show' | 'Venue' | 'Segment' | 'Appearance' | 'Faction';
 
-// Enhanced FedSimDatabase interface with typed methods
+// Database interface every storage backend implements; tool modules only depend on this
 export interface TypedFedSimDatabase {
   find<T>(options: PouchDBFindOptions): Promise<PouchDBFindResult<T>>;
+  close(): Promise<void>;
+  // Drop the database for good; backends whose data outlives close() without a data directory implement it
+  delete?(): Promise<void>;
+  // Run `fn` so its writes across tables either all apply or are all rolled back
+  transaction<R>(fn: () => Promise<R>): Promise<R>;
   Wrestler: DatabaseTable<import('../database/db.js').Wrestler>;
   Brand: DatabaseTable<import('../database/db.js').Brand>;
   Company: DatabaseTable<import('../database/db.js').Company>;
   Production: DatabaseTable<import('../database/db.js').Production>;
-}
\ No newline at end of file
+  Championship: DatabaseTable<any>;
+  Show: DatabaseTable<any>;
+  Venue: DatabaseTable<any>;
+  Segment: DatabaseTable<any>;
+  Appearance: DatabaseTable<any>;
+  StorylineSegment: DatabaseTable<any>;
+  StorylineGoal: DatabaseTable<any>;
+  Reign: DatabaseTable<any>;
+  Rumble: DatabaseTable<any>;
+  Bet: DatabaseTable<any>;
+  Favourite: DatabaseTable<any>;
+  Notification: DatabaseTable<any>;
+  Trash: DatabaseTable<import('../database/trash.js').TrashEntry>;
+}
@@ -0,0 +1,20 @@
+/**
+ * Read a `--flag value` / `--flag=value` command line option,
+ * falling back to an environment variable when the flag is absent.
+ */
+export function getOption(flag: string, envVar?: string, argv: string[] = process.argv): string | undefined {
+  const prefix = `--${flag}`;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === prefix) {
+      const value = argv[i + 1];
+      return value && !value.startsWith('--') ? value : undefined;
+    }
+    if (arg.startsWith(`${prefix}=`)) {
+      return arg.slice(prefix.length + 1);
+    }
+  }
+
+  return envVar ? process.env[envVar] || undefined : undefined;
+}
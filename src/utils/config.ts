@@ -0,0 +1,51 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { getOption } from './cli-options.js';
+
+export interface ServerConfig {
+  backend?: string;
+  dataDir?: string;
+  // Serve Streamable HTTP on this port instead of stdio
+  httpPort?: number;
+  httpHost?: string;
+  // Browser origins allowed to use the HTTP server besides local pages
+  httpAllowedOrigins?: string[];
+}
+
+/**
+ * Server settings from an optional JSON config file (`--config` / FEDSIM_CONFIG),
+ * overridden by `--backend` / FEDSIM_BACKEND, `--data-dir` / FEDSIM_DATA_DIR,
+ * `--http` / FEDSIM_HTTP_PORT, `--host` / FEDSIM_HTTP_HOST and
+ * `--allowed-origins` / FEDSIM_HTTP_ALLOWED_ORIGINS (comma separated).
+ * A relative `dataDir` in the file is resolved against the file's directory.
+ */
+export async function loadServerConfig(argv: string[] = process.argv): Promise<ServerConfig> {
+  const configPath = getOption('config', 'FEDSIM_CONFIG', argv);
+  let fileConfig: ServerConfig = {};
+
+  if (configPath) {
+    try {
+      fileConfig = JSON.parse(await readFile(configPath, 'utf8'));
+    } catch (e) {
+      throw new Error(`Failed to read config file ${configPath}: ${(e as Error).message}`);
+    }
+    if (fileConfig.dataDir) {
+      fileConfig.dataDir = path.resolve(path.dirname(configPath), fileConfig.dataDir);
+    }
+  }
+
+  const httpPort = getOption('http', 'FEDSIM_HTTP_PORT', argv) ?? fileConfig.httpPort;
+  if (httpPort !== undefined && !/^\d+$/.test(String(httpPort))) {
+    throw new Error(`Invalid HTTP port '${httpPort}'`);
+  }
+
+  const allowedOrigins = getOption('allowed-origins', 'FEDSIM_HTTP_ALLOWED_ORIGINS', argv);
+
+  return {
+    backend: getOption('backend', 'FEDSIM_BACKEND', argv) ?? fileConfig.backend,
+    dataDir: getOption('data-dir', 'FEDSIM_DATA_DIR', argv) ?? fileConfig.dataDir,
+    httpPort: httpPort === undefined ? undefined : Number(httpPort),
+    httpHost: getOption('host', 'FEDSIM_HTTP_HOST', argv) ?? fileConfig.httpHost,
+    httpAllowedOrigins: allowedOrigins?.split(',').map(origin => origin.trim()).filter(Boolean) ?? fileConfig.httpAllowedOrigins,
+  };
+}
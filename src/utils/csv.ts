@@ -0,0 +1,83 @@
+export interface CsvRecord {
+  // 1-based line the record starts on, counting the header as line 1
+  line: number;
+  values: string[];
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks.
+ * Blank lines are skipped; the first record is returned as the header.
+ */
+export function parseCsv(text: string): { header: string[]; records: CsvRecord[] } {
+  const records: CsvRecord[] = [];
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  let blank = true;
+
+  const endField = () => {
+    values.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    if (!blank) records.push({ line: start, values });
+    values = [];
+    blank = true;
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+      blank = false;
+    } else if (char === ',') {
+      endField();
+      blank = false;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += char;
+      blank = false;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${start}`);
+  }
+  endRecord();
+
+  const [header, ...rows] = records;
+  if (!header) {
+    throw new Error('CSV has no header row');
+  }
+  return { header: header.values.map(name => name.trim()), records: rows };
+}
+
+function quote(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Format rows of already-stringified cells, quoting only where needed
+export function formatCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows].map(row => row.map(quote).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,128 @@
+import type { FieldError } from '../database/errors.js';
+
+/**
+ * The part of JSON Schema that tool input schemas use.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  default?: unknown;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+// RFC 3339 date-time, the format JSON Schema's `date-time` refers to
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'true or false',
+  object: 'an object',
+  array: 'an array',
+  null: 'null',
+};
+
+function hasType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return typeof value;
+  return String(value);
+}
+
+const childPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+// Check one value, collecting errors; returns the value with missing defaults filled in
+function check(schema: JsonSchema, value: unknown, path: string, errors: FieldError[]): unknown {
+  const field = path || 'arguments';
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(type, value))) {
+      errors.push({ field, message: `must be ${types.map(type => TYPE_NAMES[type] ?? type).join(' or ')} (got ${describe(value)})` });
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of ${schema.enum.join(', ')} (got ${describe(value)})` });
+  }
+
+  if (typeof value === 'string' && schema.format === 'date-time' && (!DATE_TIME.test(value) || Number.isNaN(Date.parse(value)))) {
+    errors.push({ field, message: `must be a date-time such as 2024-04-07T20:00:00Z (got ${describe(value)})` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be at least ${schema.minimum} (got ${value})` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be at most ${schema.maximum} (got ${value})` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, index) => check(schema.items!, item, `${field}[${index}]`, errors));
+  }
+
+  if (hasType('object', value) && (schema.properties || schema.required)) {
+    const object = { ...(value as Record<string, unknown>) };
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined && schema.properties?.[key]?.default === undefined) {
+        errors.push({ field: childPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (object[key] === undefined) {
+        if (property.default !== undefined) object[key] = structuredClone(property.default);
+        continue;
+      }
+      object[key] = check(property, object[key], childPath(path, key), errors);
+    }
+    return object;
+  }
+
+  return value;
+}
+
+/**
+ * Check tool arguments against the tool's `inputSchema`: types, enums,
+ * required fields, `minimum`/`maximum` and `format: date-time`. Every
+ * violation is reported, each under its path (`updates.date`, `brandIds[0]`).
+ * Missing arguments with a `default` are filled in on the returned copy;
+ * properties the schema does not mention are passed through untouched.
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): { args: any; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  // Clients may leave out `arguments` entirely when a tool needs none
+  const value = check(schema, args ?? {}, '', errors);
+  return { args: value, errors };
+}
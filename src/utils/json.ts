@@ -0,0 +1,20 @@
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON.parse reviver that turns ISO timestamps (as written by JSON.stringify)
+ * back into Date objects, since JSON has no Date type of its own.
+ */
+export function reviveDates(_key: string, value: any) {
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Normalise a value that arrived as JSON (or a JSON string) so dates are Date objects again.
+ */
+export function reviveJson<T = any>(value: unknown): T {
+  const raw = typeof value === 'string' ? value : JSON.stringify(value);
+  return JSON.parse(raw, reviveDates);
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createDatabase, listBackends, registerBackend, resolveBackendName } from '../src/database/backends';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+import { loadServerConfig } from '../src/utils/config';
+
+describe('Storage Backends', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'fedsim-backends-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should register the built-in backends', () => {
+    expect(listBackends().map(backend => backend.name)).toEqual(['memory', 'file', 'pouchdb-memory', 'pouchdb-leveldb', 'sqlite']);
+  });
+
+  it('should default to file storage when a data directory is given', () => {
+    expect(resolveBackendName(undefined)).toBe('memory');
+    expect(resolveBackendName(undefined, dataDir)).toBe('file');
+    expect(resolveBackendName('pouchdb-leveldb', dataDir)).toBe('pouchdb-leveldb');
+  });
+
+  it('should reject unknown backends', async () => {
+    await expect(createDatabase('mongo')).rejects.toThrow(
+      "Unknown storage backend 'mongo'. Available backends: memory, file, pouchdb-memory, pouchdb-leveldb, sqlite"
+    );
+  });
+
+  it('should require a data directory for on-disk backends', async () => {
+    await expect(createDatabase('pouchdb-leveldb')).rejects.toThrow(
+      "The 'pouchdb-leveldb' backend needs a data directory (--data-dir or FEDSIM_DATA_DIR)"
+    );
+  });
+
+  it.each(['file', 'pouchdb-leveldb', 'sqlite'])('should keep data across restarts with %s', async (backend) => {
+    const first = await createDatabase(backend, { dataDir });
+    const id = await first.Wrestler.add({ name: 'Bianca Belair', points: 88 });
+    await first.close();
+
+    const second = await createDatabase(backend, { dataDir });
+    expect(await second.Wrestler.get(id)).toMatchObject({ name: 'Bianca Belair', points: 88 });
+    expect(await second.Wrestler.add({ name: 'Iyo Sky' })).toBe(id + 1);
+    await second.close();
+  });
+
+  it.each(listBackends().map(backend => backend.name))('should run the tool modules unchanged on %s', async (backend) => {
+    const db = await createDatabase(backend, { dataDir });
+    const tools = createWrestlerTools(db);
+
+    const created = await tools.get('create_wrestler')!.handler({ name: 'Jey Uso', alignment: 'FACE' });
+    const listed = await tools.get('list_wrestlers')!.handler({ alignment: 'FACE' });
+
+    expect(created).toContain('**Jey Uso**');
+    expect(listed.map((w: any) => w.name)).toContain('Jey Uso');
+    await db.close();
+  });
+
+  it('should accept additional backends', async () => {
+    registerBackend({
+      name: 'custom',
+      description: 'Test backend',
+      requiresDataDir: false,
+      create: async () => new SimpleDatabase(),
+    });
+
+    expect(await createDatabase('custom')).toBeInstanceOf(SimpleDatabase);
+  });
+
+  describe('loadServerConfig', () => {
+    it('should read the backend and data directory from a config file', async () => {
+      const configPath = path.join(dataDir, 'fedsim.json');
+      await writeFile(configPath, JSON.stringify({ backend: 'pouchdb-leveldb', dataDir: 'data' }));
+
+      expect(await loadServerConfig(['node', 'index.js', '--config', configPath])).toEqual({
+        backend: 'pouchdb-leveldb',
+        dataDir: path.join(dataDir, 'data'),
+      });
+    });
+
+    it('should let command line flags override the config file', async () => {
+      const configPath = path.join(dataDir, 'fedsim.json');
+      await writeFile(configPath, JSON.stringify({ backend: 'pouchdb-leveldb', dataDir: 'data' }));
+
+      expect(await loadServerConfig(['node', 'index.js', `--config=${configPath}`, '--backend', 'file', '--data-dir', '/srv/fedsim'])).toEqual({
+        backend: 'file',
+        dataDir: '/srv/fedsim',
+      });
+    });
+
+    it('should read the HTTP port and host', async () => {
+      expect(await loadServerConfig(['node', 'index.js', '--http', '3000', '--host', '0.0.0.0'])).toMatchObject({
+        httpPort: 3000,
+        httpHost: '0.0.0.0',
+      });
+      await expect(loadServerConfig(['node', 'index.js', '--http', 'abc'])).rejects.toThrow("Invalid HTTP port 'abc'");
+    });
+
+    it('should read the allowed browser origins', async () => {
+      const configPath = path.join(dataDir, 'fedsim.json');
+      await writeFile(configPath, JSON.stringify({ httpAllowedOrigins: ['https://booker.example'] }));
+
+      expect(await loadServerConfig(['node', 'index.js', '--config', configPath])).toMatchObject({
+        httpAllowedOrigins: ['https://booker.example'],
+      });
+      expect(await loadServerConfig(['node', 'index.js', '--config', configPath, '--allowed-origins', 'https://a.example, https://b.example'])).toMatchObject({
+        httpAllowedOrigins: ['https://a.example', 'https://b.example'],
+      });
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createDatabase, listBackends } from '../src/database/backends';
+import { createGeneralTools } from '../src/tools/general-tools';
+import { createProductionTools } from '../src/tools/production-tools';
+import { createBrandTools } from '../src/tools/brand-tools';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+import { Journal, recordChanges } from '../src/database/journal';
+import type { DatabaseTable } from '../src/types/database';
+
+// Every registered backend must pass this suite unchanged
+const backends = listBackends().map(backend => [backend.name]);
+
+const roster = [
+  { name: 'Seth Rollins', alignment: 'HEEL', points: 85, brandIds: [1], contractExpires: new Date('2026-06-30T00:00:00.000Z') },
+  { name: 'Cody Rhodes', alignment: 'FACE', points: 90, brandIds: [2] },
+  { name: 'Roman Reigns', alignment: 'HEEL', points: 95, brandIds: [1, 2], contractExpires: new Date('2028-01-01T00:00:00.000Z') },
+  { name: 'Rhea Ripley', alignment: 'FACE', points: 85, brandIds: [1] },
+  { name: 'Becky Lynch', alignment: 'NEUTRAL', points: 80, brandIds: [] },
+];
+
+const names = (rows: any[]) => rows.map(row => row.name);
+
+describe.each(backends)('%s conformance', (backend) => {
+  let dataDir: string;
+  let db: any;
+  let table: DatabaseTable<any>;
+  let ids: number[];
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'fedsim-conformance-'));
+    db = await createDatabase(backend, { dataDir });
+    table = db.Wrestler;
+    // PouchDB memory databases are shared per process, so start from an empty table
+    await table.clear();
+    await db.Production.clear();
+    await db.Brand.clear();
+    ids = [];
+    for (const wrestler of roster) {
+      ids.push(await table.add({ ...wrestler }));
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('table', () => {
+    it('should add, get, update and delete records', async () => {
+      expect((await table.get(ids[0])).name).toBe('Seth Rollins');
+
+      await table.update(ids[0], { points: 88 });
+      expect((await table.get(ids[0])).points).toBe(88);
+
+      await table.delete(ids[0]);
+      expect(await table.get(ids[0])).toBeUndefined();
+      expect(await table.count()).toBe(4);
+    });
+
+    it('should reject updates of missing records and ignore deletes', async () => {
+      await expect(table.update(99999, { points: 1 })).rejects.toThrow('Wrestler with ID 99999 not found');
+      await expect(table.delete(99999)).resolves.toBeUndefined();
+      expect(await table.get(99999)).toBeUndefined();
+    });
+
+    it('should give every write a new revision', async () => {
+      const added = (await table.get(ids[0]))._rev;
+      await table.update(ids[0], { points: 88 });
+      const updated = (await table.get(ids[0]))._rev;
+      await table.put({ id: ids[0], name: 'Seth Rollins', points: 89 });
+
+      expect(added).toMatch(/^1-/);
+      expect(updated).toMatch(/^2-/);
+      expect((await table.get(ids[0]))._rev).toMatch(/^3-/);
+    });
+
+    it('should only update at the expected revision', async () => {
+      const { _rev } = await table.get(ids[0]);
+
+      await table.update(ids[0], { points: 88 }, { expectedRevision: _rev });
+      await expect(table.update(ids[0], { points: 70 }, { expectedRevision: _rev })).rejects.toThrow(
+        `Wrestler ${ids[0]} has changed since revision ${_rev}`
+      );
+      expect((await table.get(ids[0])).points).toBe(88);
+    });
+
+    it('should roll back a failed transaction across tables', async () => {
+      const failed = db.transaction(async () => {
+        await table.update(ids[0], { points: 10 });
+        await table.delete(ids[1]);
+        await db.Brand.add({ name: 'Raw' });
+        throw new Error('Simulation failed');
+      });
+
+      await expect(failed).rejects.toThrow('Simulation failed');
+      expect((await table.get(ids[0])).points).toBe(85);
+      expect((await table.get(ids[1])).name).toBe('Cody Rhodes');
+      expect(await db.Brand.count()).toBe(0);
+      expect(names(await table.toArray())).toEqual(names(roster));
+    });
+
+    it('should keep handing out new ids after clear', async () => {
+      await table.clear();
+
+      expect(await table.count()).toBe(0);
+      expect(await table.add({ name: 'Kofi Kingston' })).toBe(ids[4] + 1);
+    });
+
+    it('should put records with their own id', async () => {
+      await table.put({ id: ids[1], name: 'The American Nightmare', points: 92 });
+
+      expect(await table.get(ids[1])).toMatchObject({ name: 'The American Nightmare', points: 92 });
+      expect(await table.count()).toBe(5);
+    });
+  });
+
+  describe('collections', () => {
+    it('should return rows in primary key order and be awaitable', async () => {
+      expect(names(await table.toCollection())).toEqual(names(roster));
+      expect(await table.toCollection().primaryKeys()).toEqual(ids);
+    });
+
+    it('should chain filter, offset and limit', async () => {
+      const heels = table.filter(w => w.points >= 85);
+
+      expect(names(await heels.limit(2).toArray())).toEqual(['Seth Rollins', 'Cody Rhodes']);
+      expect(names(await heels.offset(1).limit(2).toArray())).toEqual(['Cody Rhodes', 'Roman Reigns']);
+      expect(await heels.count()).toBe(4);
+    });
+
+    it('should combine filters with and()', async () => {
+      const result = await table.filter(w => w.alignment === 'FACE').and(w => w.points > 85).toArray();
+
+      expect(names(result)).toEqual(['Cody Rhodes']);
+    });
+
+    it('should order, reverse and limit', async () => {
+      expect(names(await table.orderBy('points').limit(2).toArray())).toEqual(['Becky Lynch', 'Seth Rollins']);
+      expect(names(await table.orderBy('points').reverse().limit(2).toArray())).toEqual(['Roman Reigns', 'Cody Rhodes']);
+      expect(names(await table.reverse().limit(1).toArray())).toEqual(['Becky Lynch']);
+    });
+
+    it('should return first and last rows', async () => {
+      expect((await table.orderBy('name').first()).name).toBe('Becky Lynch');
+      expect((await table.orderBy('name').last()).name).toBe('Seth Rollins');
+    });
+
+    it('should sort the limited result with sortBy', async () => {
+      expect(names(await table.limit(2).sortBy('name'))).toEqual(['Cody Rhodes', 'Seth Rollins']);
+      expect(names(await table.toCollection().reverse().sortBy('points')).slice(0, 1)).toEqual(['Roman Reigns']);
+    });
+
+    it('should visit every row with each', async () => {
+      const visited: string[] = [];
+      await table.where('alignment').equals('FACE').each(w => visited.push(w.name));
+
+      expect(visited).toEqual(['Cody Rhodes', 'Rhea Ripley']);
+    });
+  });
+
+  describe('where clauses', () => {
+    it('should support equality clauses ordered by the field', async () => {
+      expect(names(await table.where('alignment').equals('HEEL'))).toEqual(['Seth Rollins', 'Roman Reigns']);
+      expect(names(await table.where('alignment').notEqual('HEEL'))).toEqual(['Cody Rhodes', 'Rhea Ripley', 'Becky Lynch']);
+      expect(names(await table.where('alignment').anyOf(['FACE', 'NEUTRAL']))).toEqual(['Cody Rhodes', 'Rhea Ripley', 'Becky Lynch']);
+      expect(names(await table.where('alignment').noneOf(['FACE', 'NEUTRAL']))).toEqual(['Seth Rollins', 'Roman Reigns']);
+    });
+
+    it('should support range clauses', async () => {
+      expect(names(await table.where('points').above(85))).toEqual(['Cody Rhodes', 'Roman Reigns']);
+      expect(names(await table.where('points').aboveOrEqual(90))).toEqual(['Cody Rhodes', 'Roman Reigns']);
+      expect(names(await table.where('points').below(85))).toEqual(['Becky Lynch']);
+      expect(names(await table.where('points').belowOrEqual(85))).toEqual(['Becky Lynch', 'Seth Rollins', 'Rhea Ripley']);
+      expect(names(await table.where('points').between(85, 95))).toEqual(['Seth Rollins', 'Rhea Ripley', 'Cody Rhodes']);
+      expect(names(await table.where('points').between(85, 95, false, true))).toEqual(['Cody Rhodes', 'Roman Reigns']);
+    });
+
+    it('should compare dates', async () => {
+      const result = await table.where('contractExpires').below(new Date('2027-01-01T00:00:00.000Z'));
+
+      expect(names(result)).toEqual(['Seth Rollins']);
+    });
+
+    it('should support string clauses', async () => {
+      expect(names(await table.where('name').startsWith('R'))).toEqual(['Rhea Ripley', 'Roman Reigns']);
+      expect(names(await table.where('name').startsWithIgnoreCase('r'))).toEqual(['Rhea Ripley', 'Roman Reigns']);
+      expect(names(await table.where('name').equalsIgnoreCase('cody rhodes'))).toEqual(['Cody Rhodes']);
+      expect(names(await table.where('name').like('NS'))).toEqual(['Roman Reigns', 'Seth Rollins']);
+    });
+
+    it('should match array fields with contains', async () => {
+      expect(names(await table.where('brandIds').contains(2))).toEqual(['Roman Reigns', 'Cody Rhodes']);
+    });
+
+    it('should chain collection methods after a where clause', async () => {
+      const result = await table.where('alignment').equals('FACE').reverse().limit(1).toArray();
+
+      expect(names(result)).toEqual(['Rhea Ripley']);
+    });
+  });
+
+  describe('tools', () => {
+    it('should search a table by name', async () => {
+      const tools = createGeneralTools(db);
+
+      const result = await tools.get('search_database')!.handler({ table: 'Wrestler', searchTerm: 'r', limit: 2 });
+
+      expect(result.count).toBe(2);
+      expect(names(result.results)).toEqual(['Seth Rollins', 'Cody Rhodes']);
+    });
+
+    it('should list the most recent productions', async () => {
+      const brandId = await db.Brand.add({ name: 'Raw' });
+      for (const [name, date] of [['Week 1', '2026-01-05'], ['Week 3', '2026-01-19'], ['Week 2', '2026-01-12']]) {
+        await db.Production.add({
+          name, date: new Date(date), brandIds: [brandId], complete: true,
+          attendanceIncome: 0, merchIncome: 0, wrestlersCost: 0, attendance: 0,
+        });
+      }
+      const tools = createProductionTools(db);
+
+      const result = await tools.get('list_productions')!.handler({ limit: 2 });
+
+      expect(result.map((p: any) => p.name)).toEqual(['Week 3', 'Week 2']);
+      expect(result[0].brands).toEqual(['Raw']);
+    });
+
+    it('should report conflicting and missing updates', async () => {
+      const brandId = await db.Brand.add({ name: 'Raw', balance: 1000 });
+      const tools = createBrandTools(db);
+      const { _rev } = await db.Brand.get(brandId);
+
+      const credited = await tools.get('update_brand_balance')!.handler({ id: brandId, amount: 500, expectedRevision: _rev });
+      const stale = await tools.get('update_brand')!.handler({ id: brandId, updates: { balance: 0 }, expectedRevision: _rev });
+      const missing = await tools.get('update_brand')!.handler({ id: 999, updates: { name: 'NXT' } });
+
+      expect(credited).toMatchObject({ balance: 1500, _rev: expect.stringMatching(/^2-/) });
+      expect(stale).toBe(`Error: Brand ${brandId} has changed since revision ${_rev} (current revision ${credited._rev}); fetch it again and retry`);
+      expect(missing).toBe('Error: Brand with ID 999 not found');
+      expect((await db.Brand.get(brandId)).balance).toBe(1500);
+    });
+
+    it('should apply concurrent boosts and penalties on top of each other', async () => {
+      const id = await db.Wrestler.add({ name: 'Gunther', morale: 50, popularity: 50, damage: 10, charisma: 50, stamina: 50, points: 50 });
+      const tools = createWrestlerTools(db);
+
+      await Promise.all([
+        tools.get('boost_wrestler')!.handler({ id }),
+        tools.get('boost_wrestler')!.handler({ id }),
+        tools.get('penalize_wrestler')!.handler({ id }),
+      ]);
+
+      expect(await db.Wrestler.get(id)).toMatchObject({ morale: 57, popularity: 57, damage: 11, points: 52 });
+    });
+
+    it('should undo and redo journaled changes', async () => {
+      const journal = new Journal(db);
+      await journal.open();
+
+      await recordChanges({ tool: 'test' }, async () => {
+        await table.update(ids[0], { points: 10 });
+        await table.delete(ids[1]);
+      });
+      await journal.undo();
+
+      expect(await table.get(ids[0])).toMatchObject({ points: 85, contractExpires: roster[0].contractExpires });
+      expect((await table.get(ids[1]))?.name).toBe('Cody Rhodes');
+
+      await journal.redo();
+      expect((await table.get(ids[0]))?.points).toBe(10);
+      expect(await table.get(ids[1])).toBeUndefined();
+    });
+  });
+});
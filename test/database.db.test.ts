@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import PouchDB from 'pouchdb';
 import PouchDBFind from 'pouchdb-find';
 import PouchDBMemory from 'pouchdb-adapter-memory';
@@ -24,6 +24,11 @@ describe('FedSimDatabase', () => {
     });
   });
 
+  afterEach(async () => {
+    // Every instance opens the same memory store, so drop it along with its id counters
+    await db.delete();
+  });
+
   describe('Database Initialization', () => {
     it('should initialize database successfully', async () => {
       expect(db).toBeDefined();
@@ -261,6 +266,26 @@ describe('FedSimDatabase', () => {
     });
   });
 
+  describe('Id Generation', () => {
+    it('should hand out sequential ids without collisions', async () => {
+      const ids = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => db.Venue.add({ name: `Venue ${i}` }))
+      );
+
+      expect(new Set(ids).size).toBe(20);
+      const sorted = [...ids].sort((a, b) => a - b);
+      expect(sorted[19] - sorted[0]).toBe(19);
+    });
+
+    it('should continue after the highest id written with put', async () => {
+      await db.Show.put({ id: 5000, name: 'Imported Show' });
+      const nextId = await db.Show.add({ name: 'New Show' });
+
+      expect(nextId).toBe(5001);
+      expect(await db.Show.getSequence()).toBe(5002);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle getting non-existent records', async () => {
       const nonExistentWrestler = await db.Wrestler.get(99999);
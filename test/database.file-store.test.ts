@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SimpleDatabase } from '../src/database/simple-db';
+
+describe('SimpleDatabase file persistence', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'fedsim-data-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should reload records written by a previous instance', async () => {
+    const first = new SimpleDatabase();
+    await first.open({ dataDir });
+    const brandId = await first.Brand.add({ name: 'Raw', balance: 1000 });
+    const wrestlerId = await first.Wrestler.add({ name: 'John Cena', brandIds: [brandId] });
+    await first.Wrestler.update(wrestlerId, { points: 90 });
+
+    const second = new SimpleDatabase();
+    await second.open({ dataDir });
+
+    const wrestler = await second.Wrestler.get(wrestlerId);
+    expect(wrestler?.name).toBe('John Cena');
+    expect(wrestler?.points).toBe(90);
+    expect(wrestler?.brandIds).toEqual([brandId]);
+    expect(await second.Brand.count()).toBe(1);
+  });
+
+  it('should persist deletes and clears', async () => {
+    const first = new SimpleDatabase();
+    await first.open({ dataDir });
+    const keepId = await first.Wrestler.add({ name: 'Keep' });
+    const dropId = await first.Wrestler.add({ name: 'Drop' });
+    await first.Wrestler.delete(dropId);
+    await first.Brand.add({ name: 'Temp' });
+    await first.Brand.clear();
+
+    const second = new SimpleDatabase();
+    await second.open({ dataDir });
+
+    expect(await second.Wrestler.get(keepId)).toBeDefined();
+    expect(await second.Wrestler.get(dropId)).toBeUndefined();
+    expect(await second.Brand.count()).toBe(0);
+  });
+
+  it('should revive dates and leave no temp files behind', async () => {
+    const date = new Date('2024-01-15T20:00:00.000Z');
+    const first = new SimpleDatabase();
+    await first.open({ dataDir });
+    const productionId = await first.Production.add({ name: 'Raw', date });
+
+    const second = new SimpleDatabase();
+    await second.open({ dataDir });
+    const production = await second.Production.get(productionId);
+
+    expect(production?.date).toBeInstanceOf(Date);
+    expect(production?.date.getTime()).toBe(date.getTime());
+
+    const files = await readdir(dataDir);
+    expect(files).toContain('Production.json');
+    expect(files.some(file => file.endsWith('.tmp'))).toBe(false);
+  });
+
+  it('should keep the id counter across restarts', async () => {
+    const first = new SimpleDatabase();
+    await first.open({ dataDir });
+    await first.Wrestler.add({ name: 'One' });
+    const twoId = await first.Wrestler.add({ name: 'Two' });
+    await first.Wrestler.delete(twoId);
+
+    const second = new SimpleDatabase();
+    await second.open({ dataDir });
+
+    expect(await second.Wrestler.add({ name: 'Three' })).toBe(twoId + 1);
+  });
+
+  it('should stay in memory when no data directory is given', async () => {
+    const db = new SimpleDatabase();
+    await db.open();
+    await db.Wrestler.add({ name: 'Ephemeral' });
+
+    expect(await readdir(dataDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { Journal, recordChanges } from '../src/database/journal';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+import { createGeneralTools } from '../src/tools/general-tools';
+import { createHistoryTools } from '../src/tools/history-tools';
+import { logger } from '../src/utils/logger';
+import { toolCaller, useTempDir, removeTempDir } from './helpers';
+
+describe('Journal', () => {
+  const dataDir = useTempDir('journal');
+  let db: SimpleDatabase;
+  let journal: Journal;
+  let tools: Map<string, any>;
+
+  const call = toolCaller(() => tools);
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    journal = new Journal(db, path.join(dataDir(), 'journal.jsonl'));
+    await journal.open();
+    tools = new Map([...createWrestlerTools(db), ...createGeneralTools(db), ...createHistoryTools(journal)]);
+  });
+
+  afterEach(async () => {
+    await journal.flush();
+  });
+
+  it('should record each tool call with the records before and after', async () => {
+    await call('create_wrestler', { name: 'Gunther', morale: 80 });
+    await call('penalize_wrestler', { id: 1 });
+
+    const { changeSets } = await call('get_history');
+
+    expect(changeSets.map((set: any) => set.tool)).toEqual(['penalize_wrestler', 'create_wrestler']);
+    expect(changeSets[0].operation).toBe('Penalize Wrestler');
+    expect(changeSets[0].changes[0]).toMatchObject({ table: 'Wrestler', id: 1, before: { morale: 80 } });
+    expect(changeSets[0].changes[0].after.morale).toBeLessThan(80);
+    expect(changeSets[1].changes[0]).toMatchObject({ before: null, after: { name: 'Gunther' } });
+  });
+
+  it('should filter history by table and record', async () => {
+    await db.Wrestler.add({ name: 'Gunther' });
+    await db.Brand.add({ name: 'Raw' });
+    await db.Wrestler.add({ name: 'Ludwig Kaiser' });
+
+    const history = journal.history({ table: 'Wrestler', id: 2 });
+
+    expect(history).toHaveLength(1);
+    expect(history[0].changes).toEqual([expect.objectContaining({ table: 'Wrestler', id: 2 })]);
+  });
+
+  it('should undo and redo an accidental penalty', async () => {
+    await call('create_wrestler', { name: 'Gunther', morale: 80 });
+    await call('penalize_wrestler', { id: 1 });
+    const penalized = (await db.Wrestler.get(1)).morale;
+
+    const undone = await call('undo');
+    expect(undone.undone).toMatchObject({ tool: 'penalize_wrestler', records: [{ table: 'Wrestler', id: 1, action: 'updated' }] });
+    expect((await db.Wrestler.get(1)).morale).toBe(80);
+
+    await call('redo');
+    expect((await db.Wrestler.get(1)).morale).toBe(penalized);
+  });
+
+  it('should undo a reset_database as one change', async () => {
+    await db.Wrestler.add({ name: 'Gunther' });
+    await db.Brand.add({ name: 'Raw' });
+
+    await call('reset_database', { tables: ['Wrestler', 'Brand'] });
+    expect(await db.Wrestler.count()).toBe(0);
+
+    await call('undo');
+    expect((await db.Wrestler.get(1)).name).toBe('Gunther');
+    expect((await db.Brand.get(1)).name).toBe('Raw');
+  });
+
+  it('should not journal undo and redo themselves', async () => {
+    await db.Wrestler.add({ name: 'Gunther' });
+    await call('undo');
+    await call('redo');
+
+    expect(journal.history()).toHaveLength(1);
+    expect(journal.history()[0].undone).toBe(false);
+  });
+
+  it('should drop the redo history once something new is written', async () => {
+    await db.Wrestler.add({ name: 'Gunther' });
+    await call('undo');
+    await db.Wrestler.add({ name: 'Ludwig Kaiser' });
+
+    expect(await call('redo')).toBe('Error: Nothing to redo');
+  });
+
+  it('should report when there is nothing to undo', async () => {
+    expect(await call('undo')).toBe('Error: Nothing to undo');
+  });
+
+  it('should keep the journal across restarts', async () => {
+    await call('create_wrestler', { name: 'Gunther' });
+    await journal.flush();
+
+    const lines = (await readFile(path.join(dataDir(), 'journal.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+
+    const reopened = new Journal(db, path.join(dataDir(), 'journal.jsonl'));
+    await reopened.open();
+    expect(reopened.history()[0]).toMatchObject({ id: 1, tool: 'create_wrestler' });
+    expect(reopened.history()[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should keep only the newest change sets in memory', async () => {
+    const bounded = new SimpleDatabase();
+    const small = new Journal(bounded, undefined, 3);
+    await small.open();
+
+    for (const name of ['Gunther', 'Sami Zayn', 'Jey Uso', 'Cody Rhodes']) {
+      await bounded.Wrestler.add({ name });
+    }
+    expect(small.history().map(set => set.id)).toEqual([4, 3, 2]);
+
+    // One change set larger than the limit still stays, so it can be undone
+    await recordChanges({ tool: 'reset_database' }, () => bounded.Wrestler.clear());
+    expect(small.history().map(set => set.id)).toEqual([5]);
+    await small.undo();
+    expect(await bounded.Wrestler.count()).toBe(4);
+  });
+
+  it('should log a failed write to the journal file made outside a tool call', async () => {
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    await removeTempDir(dataDir());
+
+    await db.Wrestler.add({ name: 'Gunther' });
+    await journal.flush();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(error).toHaveBeenCalledWith('Failed to journal change', expect.objectContaining({ table: 'Wrestler', id: 1 }));
+    error.mockRestore();
+  });
+
+  it('should tell listeners about every change, including undo and redo', async () => {
+    const seen: Array<[number, any, any]> = [];
+    const stop = journal.onChange(changes => {
+      seen.push(...changes.map((entry): [number, any, any] => [entry.id, entry.before?.morale ?? null, entry.after?.morale ?? null]));
+    });
+
+    await call('create_wrestler', { name: 'Gunther', morale: 80 });
+    await db.Wrestler.update(1, { morale: 60 });
+    await call('undo');
+    await call('redo');
+    stop();
+    await db.Wrestler.update(1, { morale: 40 });
+
+    expect(seen).toEqual([[1, null, 80], [1, 80, 60], [1, 60, 80], [1, 80, 60]]);
+  });
+
+  it('should refuse to undo over records changed outside the journal', async () => {
+    await call('create_wrestler', { name: 'Gunther' });
+    await journal.flush();
+
+    // A fresh database does not hold the record the journal expects
+    const other = new Journal(new SimpleDatabase(), path.join(dataDir(), 'journal.jsonl'));
+    await other.open();
+
+    await expect(other.undo()).rejects.toThrow('Cannot undo change 1: Wrestler 1 has been modified since');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { matchesSelector, normalizeSelector, collate } from '../src/database/mango';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { FedSimDatabase } from '../src/database/db';
+import { createGeneralTools } from '../src/tools/general-tools';
+
+const wrestlers = [
+  { name: 'Seth Rollins', alignment: 'HEEL', points: 85, brandIds: [3], active: true, contractExpires: new Date('2026-06-30T00:00:00.000Z') },
+  { name: 'Roman Reigns', alignment: 'HEEL', points: 95, brandIds: [1, 3], active: true, contractExpires: new Date('2028-01-01T00:00:00.000Z') },
+  { name: 'Cody Rhodes', alignment: 'FACE', points: 90, brandIds: [3], active: true, contractExpires: new Date('2026-11-15T00:00:00.000Z') },
+  { name: 'Dominik Mysterio', alignment: 'HEEL', points: 70, brandIds: [3], active: false, contractExpires: new Date('2026-03-01T00:00:00.000Z') },
+  { name: 'Rey Mysterio', alignment: 'FACE', points: 75, brandIds: [], active: false },
+];
+
+describe('Mango Selectors', () => {
+  describe('matchesSelector', () => {
+    const doc = { name: 'Seth Rollins', points: 85, brandIds: [1, 3], finisher: null, stats: { wins: 12 } };
+    const matches = (selector: Record<string, any>) => matchesSelector(doc, normalizeSelector(selector));
+
+    it('should support comparison operators', () => {
+      expect(matches({ points: { $gt: 80, $lte: 85 } })).toBe(true);
+      expect(matches({ points: { $lt: 85 } })).toBe(false);
+      expect(matches({ points: { $ne: 85 } })).toBe(false);
+      expect(matches({ points: { $in: [70, 85] } })).toBe(true);
+      expect(matches({ points: { $nin: [70, 85] } })).toBe(false);
+    });
+
+    it('should not compare values of different types', () => {
+      expect(matches({ points: { $gt: '80' } })).toBe(false);
+      expect(collate(null, 0)).toBe(-1);
+      expect(collate('a', 1)).toBe(1);
+    });
+
+    it('should support $regex and $exists', () => {
+      expect(matches({ name: { $regex: '^Seth' } })).toBe(true);
+      expect(matches({ name: { $regex: 'rollins$' } })).toBe(false);
+      expect(matches({ finisher: { $exists: true } })).toBe(true);
+      expect(matches({ music: { $exists: false } })).toBe(true);
+    });
+
+    it('should support $elemMatch on any array field', () => {
+      expect(matches({ brandIds: { $elemMatch: { $gte: 3 } } })).toBe(true);
+      expect(matches({ brandIds: { $elemMatch: 2 } })).toBe(false);
+      expect(matches({ brandIds: { $elemMatch: 3 } })).toBe(true);
+    });
+
+    it('should support $and, $or and $not', () => {
+      expect(matches({ $or: [{ points: { $gt: 90 } }, { name: 'Seth Rollins' }] })).toBe(true);
+      expect(matches({ $and: [{ points: { $gt: 80 } }, { points: { $lt: 80 } }] })).toBe(false);
+      expect(matches({ $not: { name: 'Seth Rollins' } })).toBe(false);
+    });
+
+    it('should match nested fields', () => {
+      expect(matches({ 'stats.wins': { $gte: 10 } })).toBe(true);
+      expect(matches({ stats: { wins: { $lt: 10 } } })).toBe(false);
+    });
+
+    it('should reject unknown operators and bad regular expressions', () => {
+      expect(() => normalizeSelector({ points: { $greater: 80 } })).toThrow('Unknown selector operator "$greater" on points');
+      expect(() => normalizeSelector({ $xor: [] })).toThrow('Unknown selector operator "$xor"');
+      expect(() => normalizeSelector({ name: { $regex: '(' } })).toThrow('$regex on name is not a valid regular expression');
+    });
+  });
+
+  describe('backend parity', () => {
+    const simpleDb = new SimpleDatabase();
+    const pouchDb = new FedSimDatabase();
+
+    const selectors: Array<Record<string, any>> = [
+      { alignment: 'HEEL', points: { $gt: 80 }, brandIds: { $elemMatch: { $eq: 3 } }, contractExpires: { $gte: '2026-01-01', $lt: '2027-01-01' } },
+      { points: { $gte: 75, $lte: 90 }, alignment: { $ne: 'FACE' } },
+      { name: { $regex: 'Mysterio' } },
+      { contractExpires: { $exists: false } },
+      { $or: [{ points: { $gt: 90 } }, { active: false }] },
+      { $not: { alignment: 'HEEL' } },
+      { alignment: { $in: ['FACE', 'NEUTRAL'] }, brandIds: { $elemMatch: 3 } },
+      { brandIds: { $size: 0 } },
+    ];
+
+    beforeAll(async () => {
+      for (const wrestler of wrestlers) {
+        await simpleDb.Wrestler.add({ ...wrestler });
+        await pouchDb.Wrestler.add({ ...wrestler });
+      }
+    });
+
+    const names = async (db: SimpleDatabase | FedSimDatabase, selector: Record<string, any>) =>
+      (await db.find<any>({ selector: { type: 'Wrestler', ...selector } })).docs.map(doc => doc.name).sort();
+
+    it('should answer heels over 80 on brand 3 expiring this year in one query', async () => {
+      expect(await names(simpleDb, selectors[0])).toEqual(['Seth Rollins']);
+    });
+
+    it.each(selectors.map(selector => [JSON.stringify(selector), selector]))('should match %s the same on both backends', async (_label, selector) => {
+      expect(await names(simpleDb, selector)).toEqual(await names(pouchDb, selector));
+    });
+  });
+
+  describe('query_table', () => {
+    it('should accept a Mango selector in where', async () => {
+      const db = new SimpleDatabase();
+      for (const wrestler of wrestlers) {
+        await db.Wrestler.add({ ...wrestler });
+      }
+      const tools = createGeneralTools(db);
+
+      const result = await tools.get('query_table')!.handler({
+        table: 'Wrestler',
+        where: { $or: [{ alignment: 'FACE' }, { points: { $gte: 95 } }] },
+        orderBy: 'points',
+        limit: 2,
+      });
+
+      expect(result.results.map((w: any) => w.name)).toEqual(['Rey Mysterio', 'Cody Rhodes']);
+      expect(result.pagination).toMatchObject({ count: 2, totalCount: 3, hasMore: true });
+    });
+
+    it('should report invalid selectors as errors', async () => {
+      const tools = createGeneralTools(new SimpleDatabase());
+
+      const result = await tools.get('query_table')!.handler({ table: 'Wrestler', where: { points: { $between: [1, 2] } } });
+
+      expect(result).toBe('Error: Unknown selector operator "$between" on points');
+    });
+  });
+});
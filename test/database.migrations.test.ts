@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { migrateTables, storesFor, supportedVersions } from '../src/database/migrations';
+import { stores } from '../src/database/schema';
+
+describe('Schema Migrations', () => {
+  const v14 = {
+    Wrestler: [{ id: 1, name: 'Rhea Ripley' }],
+    StorylineTemplate: [{ id: 1, name: 'Betrayal', minDuration: 4, maxDuration: 8, segments: ['attack', 'promo'] }],
+    ActiveStoryline: [{ id: 2, name: 'Judgment Day split', targetDate: '2025-04-20T00:00:00.000Z', currentWeek: 3 }],
+    StorylineSegment: [{ id: 5, storylineId: 2, segmentId: 9, weekNumber: 3 }],
+    StorylineGoal: [{ id: 1, storylineId: 2 }],
+    Notification: [{ id: 1, title: 'Welcome' }],
+  };
+
+  it('should know the server schema and the newer game schema', () => {
+    expect(supportedVersions).toEqual([14, 17]);
+    expect(storesFor(14)).toBe(stores);
+    expect(Object.keys(storesFor(17))).toContain('StorylineBeat');
+    expect(Object.keys(storesFor(17))).not.toContain('ActiveStoryline');
+  });
+
+  it('should upgrade storyline tables to version 17', () => {
+    const { data, report } = migrateTables(v14, 14, 17);
+
+    expect(Object.keys(data)).toEqual(['Wrestler', 'StorylineTemplate', 'Storyline', 'StorylineBeat']);
+    expect(data.StorylineTemplate[0]).toEqual({ id: 1, name: 'Betrayal', suggestedDurationWeeks: 8, storyBeats: ['attack', 'promo'] });
+    expect(data.Storyline[0]).toEqual({ id: 2, name: 'Judgment Day split', endDate: '2025-04-20T00:00:00.000Z', currentWeek: 3 });
+    expect(data.StorylineBeat).toEqual(v14.StorylineSegment);
+
+    expect(report.from).toBe(14);
+    expect(report.to).toBe(17);
+    expect(report.steps).toHaveLength(1);
+    expect(report.steps[0].changes).toEqual([
+      'StorylineTemplate: merged minDuration and maxDuration into suggestedDurationWeeks in 1 rows',
+      'StorylineTemplate: renamed segments to storyBeats in 1 rows',
+      'ActiveStoryline: renamed targetDate to endDate in 1 rows',
+      'Renamed table ActiveStoryline to Storyline (1 rows)',
+      'Renamed table StorylineSegment to StorylineBeat (1 rows)',
+      'Dropped table StorylineGoal (1 rows)',
+      'Dropped table Notification (1 rows)',
+    ]);
+  });
+
+  it('should downgrade version 17 data to the server schema', () => {
+    const { data: upgraded } = migrateTables(v14, 14, 17);
+    const { data, report } = migrateTables(upgraded, 17);
+
+    expect(report).toMatchObject({ from: 17, to: 14, steps: [{ from: 17, to: 14 }] });
+    expect(data.StorylineTemplate[0]).toEqual({ id: 1, name: 'Betrayal', minDuration: 8, maxDuration: 8, segments: ['attack', 'promo'] });
+    expect(data.ActiveStoryline).toEqual(v14.ActiveStoryline);
+    expect(data.StorylineSegment).toEqual(v14.StorylineSegment);
+  });
+
+  it('should leave the input untouched', () => {
+    migrateTables(v14, 14, 17);
+
+    expect(v14.StorylineTemplate[0]).toHaveProperty('minDuration', 4);
+    expect(v14.ActiveStoryline[0]).toHaveProperty('targetDate');
+  });
+
+  it('should report no steps when the versions match', () => {
+    expect(migrateTables(v14, 14).report.steps).toEqual([]);
+  });
+
+  it('should reject unknown schema versions', () => {
+    expect(() => migrateTables(v14, 9)).toThrow('Unsupported schema version 9 (supported: 14, 17)');
+  });
+});
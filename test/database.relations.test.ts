@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { deleteWithRelations, withDeleteBehaviour } from '../src/database/relations';
+import { ReferentialIntegrityError } from '../src/database/errors';
+import { DatabaseActions } from '../src/actions/action-wrapper';
+
+describe('Referential Integrity', () => {
+  let db: SimpleDatabase;
+  let brandId: number;
+  let wrestlerId: number;
+  let productionId: number;
+  let segmentId: number;
+  let appearanceId: number;
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    brandId = await db.Brand.add({ name: 'Raw' });
+    const otherBrandId = await db.Brand.add({ name: 'SmackDown' });
+    wrestlerId = await db.Wrestler.add({ name: 'Seth Rollins', brandIds: [brandId, otherBrandId] });
+    appearanceId = await db.Appearance.add({ wrestlerId, groupId: 1 });
+    segmentId = await db.Segment.add({ name: 'Opener', appearanceIds: [appearanceId] });
+    productionId = await db.Production.add({ name: 'Raw #1', brandIds: [brandId], segmentIds: [segmentId] });
+  });
+
+  it('should remove a deleted brand from brandIds', async () => {
+    const report = await deleteWithRelations(db, 'Brand', brandId);
+
+    expect((await db.Wrestler.get(wrestlerId)).brandIds).toEqual([2]);
+    expect((await db.Production.get(productionId)).brandIds).toEqual([]);
+    expect(report.deleted).toEqual([{ table: 'Brand', id: brandId }]);
+    expect(report.updated).toEqual([
+      { table: 'Wrestler', id: wrestlerId, field: 'brandIds' },
+      { table: 'Production', id: productionId, field: 'brandIds' },
+    ]);
+  });
+
+  it('should cascade a production delete to its segments and appearances', async () => {
+    const report = await deleteWithRelations(db, 'Production', productionId);
+
+    expect(report.deleted).toEqual([
+      { table: 'Production', id: productionId },
+      { table: 'Segment', id: segmentId },
+      { table: 'Appearance', id: appearanceId },
+    ]);
+    expect(await db.Segment.count()).toBe(0);
+    expect(await db.Appearance.count()).toBe(0);
+    expect(await db.Wrestler.get(wrestlerId)).toBeDefined();
+  });
+
+  it('should drop a deleted segment from its production', async () => {
+    await deleteWithRelations(db, 'Segment', segmentId);
+
+    expect((await db.Production.get(productionId)).segmentIds).toEqual([]);
+  });
+
+  it('should nullify appearances of a deleted wrestler', async () => {
+    await deleteWithRelations(db, 'Wrestler', wrestlerId);
+
+    expect((await db.Appearance.get(appearanceId)).wrestlerId).toBeNull();
+  });
+
+  it('should block restricted deletes without changing anything', async () => {
+    const strict = withDeleteBehaviour({ 'Appearance.wrestlerId': 'restrict' });
+
+    await expect(deleteWithRelations(db, 'Wrestler', wrestlerId, strict)).rejects.toBeInstanceOf(ReferentialIntegrityError);
+    await expect(deleteWithRelations(db, 'Wrestler', wrestlerId, strict)).rejects.toThrow(
+      `Cannot delete Wrestler ${wrestlerId}: still referenced by Appearance ${appearanceId} (wrestlerId)`
+    );
+    expect(await db.Wrestler.get(wrestlerId)).toBeDefined();
+  });
+
+  it('should allow a restricted delete once the reference is cascaded away', async () => {
+    const strict = withDeleteBehaviour({ 'Appearance.wrestlerId': 'restrict' });
+    await deleteWithRelations(db, 'Production', productionId, strict);
+
+    await expect(deleteWithRelations(db, 'Wrestler', wrestlerId, strict)).resolves.toBeDefined();
+  });
+
+  it('should report cascaded and nullified records from deleteRecord', async () => {
+    const actions = new DatabaseActions(db as any);
+    const result = await actions.deleteRecord('Production', productionId);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      id: productionId,
+      deleted: true,
+      cascaded: [
+        { table: 'Segment', id: segmentId },
+        { table: 'Appearance', id: appearanceId },
+      ],
+      nullified: [],
+      trashId: 1,
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { tableNames } from '../src/database/schema';
+
+describe('SimpleDatabase', () => {
+  let db: SimpleDatabase;
+
+  beforeEach(() => {
+    db = new SimpleDatabase();
+  });
+
+  describe('Id Generation', () => {
+    it('should start at 1 and increment per table', async () => {
+      expect(await db.Wrestler.add({ name: 'First' })).toBe(1);
+      expect(await db.Wrestler.add({ name: 'Second' })).toBe(2);
+      expect(await db.Brand.add({ name: 'Raw' })).toBe(1);
+    });
+
+    it('should never reuse ids after delete or clear', async () => {
+      const id = await db.Wrestler.add({ name: 'Released' });
+      await db.Wrestler.delete(id);
+      await db.Wrestler.add({ name: 'Another' });
+      await db.Wrestler.clear();
+
+      expect(await db.Wrestler.add({ name: 'Fresh' })).toBe(3);
+    });
+
+    it('should not collide during bulk creation', async () => {
+      const ids = await Promise.all(
+        Array.from({ length: 200 }, (_, i) => db.Appearance.add({ wrestlerId: i }))
+      );
+      expect(new Set(ids).size).toBe(200);
+    });
+
+    it('should move the counter past ids written with put', async () => {
+      await db.Venue.put({ id: 40, name: 'Imported Venue' });
+      expect(await db.Venue.add({ name: 'New Venue' })).toBe(41);
+    });
+
+    it('should not lower the counter below ids in use', async () => {
+      await db.Venue.put({ id: 10, name: 'Arena' });
+      await db.Venue.setSequence(3);
+
+      expect(await db.Venue.getSequence()).toBe(11);
+    });
+  });
+
+  describe('Schema', () => {
+    it('should have one table per schema group', async () => {
+      expect(Object.keys(await db.backup())).toEqual(tableNames);
+      expect(db.Faction).toBeDefined();
+      expect(db.ActiveStoryline).toBeDefined();
+      expect((db as any).MatchResult).toBeUndefined();
+      expect((db as any).Storyline).toBeUndefined();
+    });
+
+    it('should report the declared fields of each table', async () => {
+      const schema = await db.getSchema();
+
+      expect(Object.keys(schema)).toEqual(tableNames);
+      expect(schema.Appearance).toEqual(['id', 'wrestlerId', 'groupId', 'manager', 'cost', 'winner', 'loser', 'draw']);
+      expect(schema.Company).toEqual(['id', 'name', 'desc', 'image', 'color', 'backgroundColor']);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SQLiteDatabase } from '../src/database/sqlite-db';
+import { Groups, InternalGroups } from '../src/database/schema';
+
+describe('SQLiteDatabase', () => {
+  let dataDir: string;
+  let filename: string;
+  let db: SQLiteDatabase;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'fedsim-sqlite-'));
+    filename = path.join(dataDir, 'fedsim.sqlite');
+    db = new SQLiteDatabase(filename);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  const inspect = <T>(query: (raw: Database.Database) => T): T => {
+    const raw = new Database(filename, { readonly: true });
+    try {
+      return query(raw);
+    } finally {
+      raw.close();
+    }
+  };
+
+  it('should create one table per schema group, internal ones included', () => {
+    const tables = inspect(raw => raw.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{ name: string }>);
+
+    expect(tables.map(table => table.name).sort()).toEqual([...Groups, ...InternalGroups].map(group => group.group).concat('_sequences').sort());
+  });
+
+  it('should index scalar schema fields, including compound indexes', () => {
+    const indexes = inspect(raw => raw.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'Appearance'").all() as Array<{ name: string }>);
+
+    expect(indexes.map(index => index.name).sort()).toEqual([
+      'Appearance_cost', 'Appearance_draw', 'Appearance_groupId', 'Appearance_groupId_wrestlerId',
+      'Appearance_loser', 'Appearance_manager', 'Appearance_winner', 'Appearance_wrestlerId',
+    ]);
+  });
+
+  it('should store array fields as JSON columns', async () => {
+    const id = await db.Wrestler.add({ name: 'Seth Rollins', brandIds: [1, 3], points: 85, active: true });
+
+    const row = inspect(raw => raw.prepare('SELECT name, brandIds, points, active FROM Wrestler WHERE id = ?').get(id));
+
+    expect(row).toEqual({ name: 'Seth Rollins', brandIds: '[1,3]', points: 85, active: 1 });
+  });
+
+  it('should add and fill the columns of fields added to the schema since the file was written', async () => {
+    await db.close();
+    await rm(filename);
+    const raw = new Database(filename);
+    raw.exec('CREATE TABLE Wrestler (id INTEGER PRIMARY KEY, doc TEXT NOT NULL, name)');
+    const doc = { name: 'Seth Rollins', brandIds: [1, 3], points: 85, active: true, _id: 'wrestler:1', _rev: '1-a', id: 1, type: 'Wrestler' };
+    raw.prepare('INSERT INTO Wrestler (id, doc, name) VALUES (?, ?, ?)').run(1, JSON.stringify(doc), doc.name);
+    raw.close();
+
+    db = new SQLiteDatabase(filename);
+
+    expect(inspect(raw => raw.prepare('SELECT brandIds, points, active FROM Wrestler').get())).toEqual({ brandIds: '[1,3]', points: 85, active: 1 });
+    expect(await db.Wrestler.where('points').above(80).toArray()).toEqual([expect.objectContaining({ name: 'Seth Rollins' })]);
+    expect(await db.Wrestler.add({ name: 'Becky Lynch', points: 90 })).toBe(2);
+  });
+
+  it('should return records with their original types', async () => {
+    const contractExpires = new Date('2026-06-30T00:00:00.000Z');
+    const id = await db.Wrestler.add({ name: 'Seth Rollins', brandIds: [1, 3], active: false, contractExpires });
+
+    expect(await db.Wrestler.get(id)).toEqual({
+      _id: `wrestler:${id}`,
+      _rev: expect.stringMatching(/^1-[0-9a-f]{16}$/),
+      id,
+      type: 'Wrestler',
+      name: 'Seth Rollins',
+      brandIds: [1, 3],
+      active: false,
+      contractExpires,
+    });
+  });
+
+  it('should keep Mango semantics for values SQL compares differently', async () => {
+    await db.Production.add({ name: 'Raw', venueId: 3, complete: true });
+    await db.Production.add({ name: 'Tapings', venueId: null, complete: false });
+    await db.Production.add({ name: 'House Show' });
+
+    const names = async (selector: Record<string, any>) =>
+      (await db.find<any>({ selector: { type: 'Production', ...selector } })).docs.map(doc => doc.name);
+
+    // null sorts below numbers but a missing field never matches
+    expect(await names({ venueId: { $lt: 5 } })).toEqual(['Raw', 'Tapings']);
+    // booleans are stored as 1/0 but are not numbers
+    expect(await names({ complete: 1 })).toEqual([]);
+    expect(await names({ complete: true })).toEqual(['Raw']);
+  });
+
+  it('should find records in other tables only when asked', async () => {
+    await db.Brand.add({ name: 'Raw' });
+    await db.Wrestler.add({ name: 'Raw Deal' });
+
+    const { docs } = await db.find<any>({ selector: { name: { $regex: '^Raw' } }, sort: [{ type: 'asc' }] });
+
+    expect(docs.map(doc => doc.type)).toEqual(['Brand', 'Wrestler']);
+  });
+});
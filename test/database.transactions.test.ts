@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { Journal, recordChanges } from '../src/database/journal';
+import { createProductionTools } from '../src/tools/production-tools';
+
+describe('Transactions', () => {
+  let db: SimpleDatabase;
+  let journal: Journal;
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    journal = new Journal(db);
+    await journal.open();
+    await db.Wrestler.add({ name: 'Gunther', points: 90 });
+    await db.Wrestler.add({ name: 'Sami Zayn', points: 85 });
+    await db.Brand.add({ name: 'Raw', balance: 1000 });
+  });
+
+  const fail = () => {
+    throw new Error('Something broke');
+  };
+
+  it('should apply every write when the function succeeds', async () => {
+    const result = await db.transaction(async () => {
+      await db.Wrestler.update(1, { points: 95 });
+      return db.Brand.add({ name: 'SmackDown' });
+    });
+
+    expect(result).toBe(2);
+    expect((await db.Wrestler.get(1)).points).toBe(95);
+    expect(await db.Brand.count()).toBe(2);
+  });
+
+  it('should roll back writes across tables when the function throws', async () => {
+    await expect(db.transaction(async () => {
+      await db.Wrestler.update(1, { points: 95 });
+      await db.Wrestler.update(1, { points: 99 });
+      await db.Wrestler.delete(2);
+      await db.Brand.add({ name: 'SmackDown' });
+      await db.Brand.put({ id: 1, name: 'Monday Night Raw', balance: 0 });
+      fail();
+    })).rejects.toThrow('Something broke');
+
+    expect(await db.Wrestler.get(1)).toMatchObject({ name: 'Gunther', points: 90 });
+    expect(await db.Wrestler.get(2)).toMatchObject({ name: 'Sami Zayn' });
+    expect(await db.Brand.toArray()).toEqual([expect.objectContaining({ id: 1, name: 'Raw', balance: 1000 })]);
+    // The id handed out inside the failed transaction is free again
+    expect(await db.Brand.add({ name: 'NXT' })).toBe(2);
+  });
+
+  it('should leave records another write changed since and report them', async () => {
+    let wrote!: () => void;
+    let resume!: () => void;
+    const written = new Promise<void>(resolve => (wrote = resolve));
+    const paused = new Promise<void>(resolve => (resume = resolve));
+
+    const transaction = db.transaction(async () => {
+      await db.Wrestler.update(1, { points: 95 });
+      await db.Wrestler.update(2, { points: 80 });
+      wrote();
+      await paused;
+      fail();
+    });
+    await written;
+    // Outside the transaction, like a call from another session
+    await db.Wrestler.update(1, { morale: 70 });
+    resume();
+
+    await expect(transaction).rejects.toThrow(
+      'Something broke; rolling back also failed for Wrestler 1: changed by another write since, left as it is'
+    );
+    expect(await db.Wrestler.get(1)).toMatchObject({ points: 95, morale: 70 });
+    expect((await db.Wrestler.get(2)).points).toBe(85);
+  });
+
+  it('should restore a cleared table', async () => {
+    await expect(db.transaction(async () => {
+      await db.Wrestler.clear();
+      fail();
+    })).rejects.toThrow();
+
+    expect((await db.Wrestler.toArray()).map(wrestler => wrestler.name)).toEqual(['Gunther', 'Sami Zayn']);
+  });
+
+  it('should join an enclosing transaction', async () => {
+    await expect(db.transaction(async () => {
+      await db.transaction(() => db.Wrestler.update(1, { points: 95 }));
+      fail();
+    })).rejects.toThrow();
+
+    expect((await db.Wrestler.get(1)).points).toBe(90);
+  });
+
+  it('should only journal transactions that succeed', async () => {
+    await recordChanges({ tool: 'ok' }, () => db.transaction(() => db.Wrestler.update(1, { points: 95 })));
+    await recordChanges({ tool: 'broken' }, () => db.transaction(async () => {
+      await db.Wrestler.update(2, { points: 50 });
+      fail();
+    })).catch(() => {});
+
+    // Newest first, after the three writes made in beforeEach
+    expect(journal.history().map(changeSet => changeSet.tool)).toEqual(['ok', null, null, null]);
+  });
+
+  it('should leave no trace of a simulation that fails part way', async () => {
+    const tools = createProductionTools(db);
+    const appearance = (wrestlerId: number, groupId: number) => db.Appearance.add({ wrestlerId, groupId, cost: 100 });
+    const opener = await db.Segment.add({ name: 'Opener', appearanceIds: [await appearance(1, 1), await appearance(2, 2)], complete: false });
+    // Wrestlers with no morale or popularity make the stats update fail in the second segment
+    const brokenIds = [
+      await db.Wrestler.add({ name: 'Ghost', points: 50, wins: 0, losses: 0, streak: 0 }),
+      await db.Wrestler.add({ name: 'Phantom', points: 50, wins: 0, losses: 0, streak: 0 }),
+    ];
+    for (const id of [1, 2]) {
+      await db.Wrestler.update(id, { wins: 0, losses: 0, streak: 0, morale: 50, popularity: 50 });
+    }
+    const mainEvent = await db.Segment.add({
+      name: 'Main Event',
+      appearanceIds: [await appearance(brokenIds[0], 1), await appearance(brokenIds[1], 2)],
+      complete: false,
+    });
+    const productionId = await db.Production.add({ name: 'Raw', segmentIds: [opener, mainEvent], complete: false });
+    const before = await db.backup();
+
+    const result = await recordChanges({ tool: 'simulate_production' }, () =>
+      tools.get('simulate_production')!.handler({ id: productionId })
+    );
+
+    expect(result).toMatch(/^Error: Invalid Wrestler: morale must be a number/);
+    const after = await db.backup();
+    const strip = (tables: Record<string, any[]>) =>
+      Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.map(({ _rev, ...row }) => row)]));
+    expect(strip(after)).toEqual(strip(before));
+    expect(journal.history({ limit: 1 })[0].tool).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { UniverseManager } from '../src/database/universes';
+import { createUniverseTools } from '../src/tools/universe-tools';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+
+describe('Universes', () => {
+  let dataDir: string;
+  let universes: UniverseManager;
+  let tools: Map<string, any>;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'fedsim-universes-'));
+    universes = new UniverseManager({ backend: 'file', dataDir });
+    await universes.open();
+    tools = createUniverseTools(universes);
+  });
+
+  afterEach(async () => {
+    await universes.close();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should start in the default universe', async () => {
+    expect(await tools.get('list_universes')!.handler({})).toEqual([
+      { name: 'default', current: true, totalRecords: 0, dataDir },
+    ]);
+  });
+
+  it('should keep tables and id counters apart', async () => {
+    await universes.current().db.Wrestler.add({ name: 'Roman Reigns' });
+    await universes.current().db.Wrestler.add({ name: 'Cody Rhodes' });
+
+    await tools.get('create_universe')!.handler({ name: 'aew', switchTo: true });
+    const wrestlerTools = createWrestlerTools(universes.current().db);
+    await wrestlerTools.get('create_wrestler')!.handler({ name: 'Kenny Omega' });
+
+    expect(universes.current().name).toBe('aew');
+    expect(await universes.current().db.Wrestler.toArray()).toEqual([expect.objectContaining({ id: 1, name: 'Kenny Omega' })]);
+    expect(await universes.get('default').db.Wrestler.count()).toBe(2);
+  });
+
+  it('should give each universe its own journal', async () => {
+    await universes.current().db.Wrestler.add({ name: 'Roman Reigns' });
+    await universes.create('aew');
+
+    expect(universes.get('aew').journal.history()).toEqual([]);
+    expect(universes.get('default').journal.history()).toHaveLength(1);
+  });
+
+  it('should switch universes', async () => {
+    await tools.get('create_universe')!.handler({ name: 'tna' });
+    expect(universes.current().name).toBe('default');
+
+    expect(await tools.get('switch_universe')!.handler({ name: 'tna' })).toMatchObject({ name: 'tna', current: true });
+    expect(await tools.get('switch_universe')!.handler({ name: 'wcw' })).toBe(
+      "Error: Universe 'wcw' not found. Available universes: default, tna"
+    );
+  });
+
+  it('should refuse to switch while other sessions are open', async () => {
+    let sessions = 2;
+    tools = createUniverseTools(universes, { openSessions: () => sessions });
+    await tools.get('create_universe')!.handler({ name: 'aew' });
+
+    const refused = "Error: Cannot switch universes while 2 sessions are open; every session shares the current universe";
+    expect(await tools.get('switch_universe')!.handler({ name: 'aew' })).toBe(refused);
+    expect(await tools.get('create_universe')!.handler({ name: 'tna', switchTo: true })).toBe(refused);
+    expect(universes.list().map(universe => universe.name)).toEqual(['default', 'aew']);
+    expect(universes.current().name).toBe('default');
+
+    sessions = 1;
+    expect(await tools.get('switch_universe')!.handler({ name: 'aew' })).toMatchObject({ name: 'aew', current: true });
+  });
+
+  it('should reopen saved universes after a restart', async () => {
+    await universes.create('aew');
+    await universes.get('aew').db.Wrestler.add({ name: 'Kenny Omega' });
+    await universes.close();
+
+    universes = new UniverseManager({ backend: 'file', dataDir });
+    await universes.open();
+
+    expect(universes.list().map(universe => universe.name)).toEqual(['default', 'aew']);
+    expect((await universes.get('aew').db.Wrestler.get(1)).name).toBe('Kenny Omega');
+  });
+
+  it('should delete a universe and its data', async () => {
+    await universes.create('aew');
+    await universes.get('aew').db.Wrestler.add({ name: 'Kenny Omega' });
+
+    expect(await tools.get('delete_universe')!.handler({ name: 'aew' })).toEqual({ name: 'aew', deleted: true });
+    expect(universes.list().map(universe => universe.name)).toEqual(['default']);
+    await expect(access(path.join(dataDir, 'universes', 'aew'))).rejects.toThrow();
+  });
+
+  it('should not delete the current or default universe', async () => {
+    await tools.get('create_universe')!.handler({ name: 'aew', switchTo: true });
+
+    expect(await tools.get('delete_universe')!.handler({ name: 'aew' })).toBe(
+      "Error: Universe 'aew' is the current universe; switch to another one first"
+    );
+    expect(await tools.get('delete_universe')!.handler({ name: 'default' })).toBe('Error: The default universe cannot be deleted');
+  });
+
+  it('should reject duplicate and unsafe names', async () => {
+    await tools.get('create_universe')!.handler({ name: 'aew' });
+
+    expect(await tools.get('create_universe')!.handler({ name: 'aew' })).toBe("Error: Universe 'aew' already exists");
+    expect(await tools.get('create_universe')!.handler({ name: '../aew' })).toContain("Invalid universe name '../aew'");
+  });
+
+  it('should never resolve a universe to the data directory or above it', async () => {
+    await universes.current().db.Wrestler.add({ name: 'Roman Reigns' });
+
+    for (const name of ['.', '..', '...']) {
+      expect(await tools.get('create_universe')!.handler({ name })).toContain(`Invalid universe name '${name}'`);
+    }
+    expect(await tools.get('delete_universe')!.handler({ name: '..' })).toBe(
+      "Error: Universe '..' not found. Available universes: default"
+    );
+    expect(await universes.current().db.Wrestler.count()).toBe(1);
+    await expect(access(dataDir)).resolves.toBeUndefined();
+  });
+
+  it('should isolate in-memory PouchDB universes', async () => {
+    const pouch = new UniverseManager({ backend: 'pouchdb-memory' });
+    await pouch.open();
+    await pouch.create('aew');
+    await pouch.get('aew').db.Wrestler.add({ name: 'Kenny Omega' });
+
+    expect(await pouch.get('aew').db.Wrestler.count()).toBe(1);
+    await pouch.create('tna');
+    expect(await pouch.get('tna').db.Wrestler.count()).toBe(0);
+    await pouch.close();
+  });
+
+  it('should destroy an in-memory PouchDB universe when it is deleted', async () => {
+    const pouch = new UniverseManager({ backend: 'pouchdb-memory' });
+    await pouch.open();
+    await pouch.create('aew');
+    const destroy = vi.spyOn(pouch.get('aew').db, 'delete');
+
+    await pouch.delete('aew');
+
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(pouch.list().map(universe => universe.name)).toEqual(['default']);
+    await pouch.close();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { validateRecord } from '../src/database/validation';
+import { ValidationError } from '../src/database/errors';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+import { createProductionTools } from '../src/tools/production-tools';
+
+describe('Record Validation', () => {
+  describe('validateRecord', () => {
+    it('should accept a valid wrestler', () => {
+      expect(validateRecord('Wrestler', {
+        name: 'John Cena',
+        alignment: 'FACE',
+        gender: 'MALE',
+        contractType: 'FULL',
+        brandIds: [1, 2],
+        points: 90,
+        active: true,
+        dob: null,
+        contractExpires: new Date(),
+      })).toEqual([]);
+    });
+
+    it('should reject stats outside 0-100', () => {
+      expect(validateRecord('Wrestler', { points: 500, damage: -1 })).toEqual([
+        { field: 'points', message: 'must be between 0 and 100 (got 500)' },
+        { field: 'damage', message: 'must be between 0 and 100 (got -1)' },
+      ]);
+    });
+
+    it('should enforce enums for alignment, gender and contractType', () => {
+      const errors = validateRecord('Wrestler', { alignment: 'GOOD', gender: 'X', contractType: 'FOREVER' });
+      expect(errors.map(error => error.field)).toEqual(['alignment', 'gender', 'contractType']);
+      expect(errors[0].message).toBe('must be one of FACE, HEEL, NEUTRAL (got "GOOD")');
+    });
+
+    it('should require arrays of ids for *Ids fields', () => {
+      expect(validateRecord('Production', { brandIds: '1,2' })).toEqual([
+        { field: 'brandIds', message: 'must be an array of ids (got "1,2")' },
+      ]);
+      expect(validateRecord('Production', { segmentIds: [1, 'two'] })).toEqual([
+        { field: 'segmentIds', message: 'must only contain numeric ids' },
+      ]);
+    });
+
+    it('should reject fields that are not in the schema', () => {
+      expect(validateRecord('Brand', { name: 'Raw', tagline: 'Monday nights' })).toEqual([
+        { field: 'tagline', message: 'is not a field of Brand' },
+      ]);
+    });
+
+    it('should ignore bookkeeping fields added by the database', () => {
+      expect(validateRecord('Brand', { _id: 'brand:1', _rev: '1-a', id: 1, type: 'Brand', name: 'Raw' })).toEqual([]);
+    });
+  });
+
+  describe('writes', () => {
+    let db: SimpleDatabase;
+
+    beforeEach(() => {
+      db = new SimpleDatabase();
+    });
+
+    it('should throw a ValidationError listing every bad field', async () => {
+      const write = db.Wrestler.add({ name: 'Bad', points: 101, alignment: 'EVIL' });
+
+      await expect(write).rejects.toBeInstanceOf(ValidationError);
+      await expect(write).rejects.toThrow('Invalid Wrestler: points must be between 0 and 100 (got 101); alignment must be one of FACE, HEEL, NEUTRAL (got "EVIL")');
+      expect(await db.Wrestler.count()).toBe(0);
+    });
+
+    it('should reject update_wrestler setting points to 500', async () => {
+      const tools = createWrestlerTools(db as any);
+      const id = await db.Wrestler.add({ name: 'John Cena', points: 90 });
+
+      const result = await tools.get('update_wrestler')!.handler({ id, updates: { points: 500 } });
+
+      expect(result).toBe('Error: Invalid Wrestler: points must be between 0 and 100 (got 500)');
+      expect((await db.Wrestler.get(id)).points).toBe(90);
+    });
+
+    it('should reject create_production with a string for brandIds', async () => {
+      const tools = createProductionTools(db as any);
+
+      const result = await tools.get('create_production')!.handler({ name: 'Raw', brandIds: '1' });
+
+      expect(result).toBe('Error: Invalid Production: brandIds must be an array of ids (got "1")');
+      expect(await db.Production.count()).toBe(0);
+    });
+  });
+});
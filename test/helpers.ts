@@ -0,0 +1,35 @@
+import { beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { recordChanges } from '../src/database/journal';
+
+/**
+ * Calls tools the way the server does, so their writes are journaled under
+ * the tool's name. `tools` is read on every call, so it can be replaced in a
+ * `beforeEach`.
+ */
+export const toolCaller = (tools: () => Map<string, any>) =>
+  (name: string, args: any = {}) => recordChanges({ tool: name }, () => tools().get(name)!.handler(args));
+
+export const createTempDir = (name: string) => mkdtemp(path.join(tmpdir(), `fedsim-${name}-`));
+
+export const removeTempDir = (dir: string) => rm(dir, { recursive: true, force: true });
+
+/**
+ * A fresh temporary directory for every test of the enclosing `describe`,
+ * removed after the test's own `afterEach` hooks have run.
+ */
+export function useTempDir(name: string): () => string {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await createTempDir(name);
+  });
+
+  afterEach(async () => {
+    await removeTempDir(dir);
+  });
+
+  return () => dir;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { createPrompts, PromptArgumentError } from '../src/prompts/prompts';
+
+describe('Prompts', () => {
+  let db: SimpleDatabase;
+  let prompts: ReturnType<typeof createPrompts>;
+
+  const text = async (name: string, args: Record<string, string>) => {
+    const { messages } = await prompts.get(name, args);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe('user');
+    return messages[0].content.text;
+  };
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    prompts = createPrompts(db);
+
+    const raw = await db.Brand.add({ name: 'Raw', balance: 25000 });
+    await db.Wrestler.add({ name: 'CM Punk', brandIds: [raw], active: true, alignment: 'FACE', points: 88, cost: 700 });
+    await db.Wrestler.add({ name: 'Drew McIntyre', brandIds: [raw], active: true, alignment: 'HEEL', points: 86, cost: 650 });
+    await db.Production.add({
+      name: 'Raw #1600',
+      brandIds: [raw],
+      segmentIds: [],
+      complete: true,
+      date: new Date('2024-01-01'),
+      wrestlersCost: 1350,
+      segmentsCost: 0,
+      attendanceIncome: 9000,
+      merchIncome: 1500,
+      attendance: 15000,
+      viewers: 1800000,
+    });
+  });
+
+  it('should list every prompt with its arguments', () => {
+    expect(prompts.prompts.map(prompt => [prompt.name, prompt.arguments.map(argument => argument.name)])).toEqual([
+      ['book_weekly_show', ['brandId']],
+      ['plan_feud', ['wrestlerA', 'wrestlerB']],
+      ['review_finances', ['brandId']],
+      ['recap_production', ['id']],
+    ]);
+  });
+
+  it('should fill a show booking prompt with the roster and finances', async () => {
+    const prompt = await prompts.get('book_weekly_show', { brandId: '1' });
+    const body = prompt.messages[0].content.text;
+
+    expect(prompt.description).toBe('Book a weekly show for Raw');
+    expect(body).toMatch(/^Book this week's Raw show/);
+    expect(body).toContain('## Roster');
+    expect(body).toContain('"name": "Drew McIntyre"');
+    expect(body).toContain('"currentBalance": 25000');
+  });
+
+  it('should find feud participants by id or name', async () => {
+    const body = await text('plan_feud', { wrestlerA: '1', wrestlerB: 'drew mcintyre' });
+
+    expect(body).toMatch(/^Plan a feud between CM Punk and Drew McIntyre/);
+    expect(body).toContain('## Wrestler A\n\n```json\n{\n  "basicInfo": {\n    "id": 1,\n    "name": "CM Punk"');
+    expect(body).toContain('## Wrestler B\n\n```json\n{\n  "basicInfo": {\n    "id": 2,\n    "name": "Drew McIntyre"');
+  });
+
+  it('should keep both wrestlers of a feud when they share a name', async () => {
+    const id = await db.Wrestler.add({ name: 'CM Punk', active: true, alignment: 'HEEL', points: 70 });
+    const body = await text('plan_feud', { wrestlerA: '1', wrestlerB: String(id) });
+
+    expect(body).toMatch(/^Plan a feud between CM Punk and CM Punk/);
+    expect(body).toContain('"alignment": "FACE"');
+    expect(body).toContain('"alignment": "HEEL"');
+  });
+
+  it('should fill finance reviews and production recaps', async () => {
+    expect(await text('review_finances', { brandId: '1' })).toContain('"netProfit": 9150');
+    expect(await text('recap_production', { id: '1' })).toContain('"viewers": 1800000');
+  });
+
+  it('should reject unknown prompts and bad arguments', async () => {
+    await expect(prompts.get('book_ppv', {})).rejects.toThrow("Prompt 'book_ppv' not found");
+    await expect(prompts.get('plan_feud', { wrestlerA: '1' })).rejects.toThrow('Missing required argument(s) for plan_feud: wrestlerB');
+    await expect(prompts.get('review_finances', { brandId: 'Raw' })).rejects.toBeInstanceOf(PromptArgumentError);
+    await expect(prompts.get('plan_feud', { wrestlerA: '1', wrestlerB: 'Hulk Hogan' })).rejects.toThrow("No wrestler named 'Hulk Hogan'");
+    await expect(prompts.get('recap_production', { id: '42' })).rejects.toThrow('Production with ID 42 not found');
+  });
+});
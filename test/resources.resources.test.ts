@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { createResources, changedResources, ResourceNotFoundError, RESOURCE_PAGE_SIZE } from '../src/resources/resources';
+
+describe('Resources', () => {
+  let db: SimpleDatabase;
+  let resources: ReturnType<typeof createResources>;
+
+  const readJson = async (uri: string) => {
+    const { contents } = await resources.read(uri);
+    expect(contents).toEqual([{ uri, mimeType: 'application/json', text: expect.any(String) }]);
+    return JSON.parse(contents[0].text);
+  };
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    resources = createResources(db);
+
+    const raw = await db.Brand.add({ name: 'Raw', balance: 1000 });
+    const cody = await db.Wrestler.add({ name: 'Cody Rhodes', brandIds: [raw], active: true, alignment: 'FACE', points: 90, cost: 500 });
+    const roman = await db.Wrestler.add({ name: 'Roman Reigns', brandIds: [], active: true, alignment: 'HEEL', points: 95, cost: 900 });
+    const title = await db.Championship.add({ name: 'Undisputed WWE Championship', active: true });
+    await db.Reign.add({ championshipId: title, wrestlerIds: [cody], startDate: new Date('2024-04-07'), defenses: 12 });
+    await db.Reign.add({ championshipId: title, wrestlerIds: [roman], startDate: new Date('2020-08-30'), endDate: new Date('2024-04-07'), defenses: 40 });
+    const segment = await db.Segment.add({ name: 'Main Event', appearanceIds: [], type: 'MATCH', rating: 88, complete: true });
+    await db.Production.add({
+      name: 'WrestleMania XL',
+      brandIds: [raw],
+      segmentIds: [segment],
+      complete: true,
+      wrestlersCost: 1400,
+      attendanceIncome: 5000,
+      merchIncome: 1000,
+    });
+  });
+
+  it('should describe every URI template', () => {
+    expect(resources.templates.map(template => template.uriTemplate)).toEqual([
+      'fedsim://wrestler/{id}',
+      'fedsim://brand/{id}/roster',
+      'fedsim://production/{id}/report',
+      'fedsim://championship/{id}/history',
+    ]);
+  });
+
+  it('should list one resource per record', async () => {
+    const { resources: listed, nextCursor } = await resources.list();
+
+    expect(nextCursor).toBeUndefined();
+    expect(listed.map(resource => [resource.uri, resource.name])).toEqual([
+      ['fedsim://wrestler/1', 'Cody Rhodes'],
+      ['fedsim://wrestler/2', 'Roman Reigns'],
+      ['fedsim://brand/1/roster', 'Raw roster'],
+      ['fedsim://production/1/report', 'WrestleMania XL report'],
+      ['fedsim://championship/1/history', 'Undisputed WWE Championship history'],
+    ]);
+  });
+
+  it('should page through long listings with a cursor', async () => {
+    for (let i = 0; i < RESOURCE_PAGE_SIZE; i++) {
+      await db.Wrestler.add({ name: `Jobber ${i}` });
+    }
+
+    const first = await resources.list();
+    const second = await resources.list(first.nextCursor);
+
+    expect(first.resources).toHaveLength(RESOURCE_PAGE_SIZE);
+    expect(second.resources.map(resource => resource.uri)).toEqual([
+      `fedsim://wrestler/${RESOURCE_PAGE_SIZE + 1}`,
+      `fedsim://wrestler/${RESOURCE_PAGE_SIZE + 2}`,
+      'fedsim://brand/1/roster',
+      'fedsim://production/1/report',
+      'fedsim://championship/1/history',
+    ]);
+    expect(second.nextCursor).toBeUndefined();
+    await expect(resources.list('not-a-cursor')).rejects.toThrow("Invalid cursor 'not-a-cursor'");
+  });
+
+  it('should read a wrestler', async () => {
+    const wrestler = await readJson('fedsim://wrestler/1');
+
+    expect(wrestler.basicInfo).toMatchObject({ id: 1, name: 'Cody Rhodes', alignment: 'FACE' });
+  });
+
+  it('should read a brand roster', async () => {
+    const roster = await readJson('fedsim://brand/1/roster');
+
+    expect(roster.brand).toEqual({ id: 1, name: 'Raw' });
+    expect(roster.wrestlers.map((wrestler: any) => wrestler.name)).toEqual(['Cody Rhodes']);
+  });
+
+  it('should read a production report', async () => {
+    const report = await readJson('fedsim://production/1/report');
+
+    expect(report.production).toMatchObject({ name: 'WrestleMania XL', complete: true });
+    expect(report.financial).toMatchObject({ totalRevenue: 6000, profit: 4600 });
+  });
+
+  it('should read a championship history oldest reign first', async () => {
+    const history = await readJson('fedsim://championship/1/history');
+
+    expect(history.totalReigns).toBe(2);
+    expect(history.reigns.map((reign: any) => [reign.holders[0].name, reign.defenses])).toEqual([
+      ['Roman Reigns', 40],
+      ['Cody Rhodes', 12],
+    ]);
+  });
+
+  it('should reject unknown URIs and missing records', async () => {
+    await expect(resources.read('fedsim://wrestler/99')).rejects.toBeInstanceOf(ResourceNotFoundError);
+    await expect(resources.read('fedsim://venue/1')).rejects.toThrow('Resource fedsim://venue/1 not found');
+    await expect(resources.read('fedsim://brand/1')).rejects.toBeInstanceOf(ResourceNotFoundError);
+  });
+
+  describe('changedResources', () => {
+    it('should name the wrestler and the rosters they left and joined', () => {
+      const change = changedResources([
+        { table: 'Wrestler', id: 1, before: { name: 'Cody Rhodes', brandIds: [1] }, after: { name: 'Cody Rhodes', brandIds: [2] } },
+      ]);
+
+      expect(change).toEqual({
+        uris: ['fedsim://wrestler/1', 'fedsim://brand/1/roster', 'fedsim://brand/2/roster'],
+        listChanged: false,
+      });
+    });
+
+    it('should name production reports and championship histories', () => {
+      const change = changedResources([
+        { table: 'Production', id: 4, before: { name: 'Raw' }, after: { name: 'Raw', complete: true } },
+        { table: 'Reign', id: 9, before: null, after: { championshipId: 2 } },
+        { table: 'Appearance', id: 3, before: null, after: { wrestlerId: 1 } },
+      ]);
+
+      expect(change).toEqual({
+        uris: ['fedsim://production/4/report', 'fedsim://championship/2/history'],
+        listChanged: false,
+      });
+    });
+
+    it('should flag the list as changed when listed records are added, removed or renamed', () => {
+      expect(changedResources([{ table: 'Brand', id: 3, before: null, after: { name: 'NXT' } }]).listChanged).toBe(true);
+      expect(changedResources([{ table: 'Production', id: 1, before: { name: 'Raw' }, after: null }]).listChanged).toBe(true);
+      expect(changedResources([
+        { table: 'Wrestler', id: 1, before: { name: 'Cody' }, after: { name: 'Cody Rhodes' } },
+      ]).listChanged).toBe(true);
+    });
+  });
+});
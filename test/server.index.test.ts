@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import server, { initializeServer } from '../src/index';
+
+describe('MCP server', () => {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+
+  beforeAll(async () => {
+    await initializeServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('should refuse arguments that break the input schema with InvalidParams', async () => {
+    const call = client.callTool({ name: 'update_production', arguments: { id: '1' } });
+
+    await expect(call).rejects.toThrow('Invalid arguments for update_production: updates is required; id must be a number (got "1")');
+    await expect(call).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+  });
+
+  it('should run tools with valid arguments and their defaults filled in', async () => {
+    await client.callTool({ name: 'create_wrestler', arguments: { name: 'Jey Uso' } });
+    const result = await client.callTool({ name: 'search_database', arguments: { table: 'Wrestler', searchTerm: 'Jey' } });
+
+    expect(JSON.parse((result.content as any)[0].text)).toMatchObject({ count: 1, results: [{ name: 'Jey Uso' }] });
+  });
+
+  it('should report unknown tools as MethodNotFound', async () => {
+    await expect(client.callTool({ name: 'book_ppv', arguments: {} })).rejects.toHaveProperty('code', ErrorCode.MethodNotFound);
+  });
+});
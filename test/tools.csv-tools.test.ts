@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { createCsvTools } from '../src/tools/csv-tools';
+import { toolCaller, createTempDir, removeTempDir } from './helpers';
+
+describe('CSV Tools', () => {
+  let db: SimpleDatabase;
+  let tools: Map<string, any>;
+
+  const call = toolCaller(() => tools);
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    tools = createCsvTools(db);
+    await db.Brand.add({ name: 'Raw' });
+    await db.Brand.add({ name: 'SmackDown' });
+  });
+
+  describe('export_csv', () => {
+    it('should export chosen columns and flatten arrays', async () => {
+      await db.Wrestler.add({ name: 'Gunther', brandIds: [1, 2], points: 90 });
+      await db.Wrestler.add({ name: 'Rhea Ripley, "Mami"', brandIds: [] });
+
+      const result = await call('export_csv', { table: 'Wrestler', columns: ['id', 'name', 'brandIds', 'points'] });
+
+      expect(result.rowCount).toBe(2);
+      expect(result.csv).toBe('id,name,brandIds,points\n1,Gunther,1;2,90\n2,"Rhea Ripley, ""Mami""",,\n');
+    });
+
+    it('should keep cells that look like formulas as text', async () => {
+      await db.Wrestler.add({ name: '=HYPERLINK("http://evil.example")', desc: '@SUM(A1)', special: '+1 move', finisher: '-' });
+
+      const result = await call('export_csv', { table: 'Wrestler', columns: ['name', 'desc', 'special', 'finisher'] });
+
+      expect(result.csv).toBe('name,desc,special,finisher\n"\'=HYPERLINK(""http://evil.example"")",\'@SUM(A1),\'+1 move,\'-\n');
+    });
+
+    it('should default to every schema field', async () => {
+      const result = await call('export_csv', { table: 'Brand' });
+
+      expect(result.columns[0]).toBe('id');
+      expect(result.columns).toContain('name');
+      expect(result.columns).not.toContain('_id');
+    });
+
+    it('should reject unknown tables and columns', async () => {
+      expect(await call('export_csv', { table: 'Nope' })).toBe("Error: Table 'Nope' not found");
+      expect(await call('export_csv', { table: 'Brand', columns: ['name', 'colour'] })).toMatch(/^Error: Unknown columns for Brand: colour\./);
+    });
+
+    it('should write to a file', async () => {
+      const dir = await createTempDir('csv');
+      const filePath = path.join(dir, 'brands.csv');
+      try {
+        const result = await call('export_csv', { table: 'Brand', columns: ['name'], filePath });
+
+        expect(result).toEqual({ table: 'Brand', columns: ['name'], rowCount: 2, filePath });
+        expect(await readFile(filePath, 'utf8')).toBe('name\nRaw\nSmackDown\n');
+      } finally {
+        await removeTempDir(dir);
+      }
+    });
+  });
+
+  describe('import_csv', () => {
+    it('should create wrestlers with the create_wrestler defaults and brand names resolved', async () => {
+      const result = await call('import_csv', {
+        table: 'Wrestler',
+        data: 'name,brandIds,alignment,pushed,points\nGunther,raw;SmackDown,heel,yes,90\n',
+      });
+
+      expect(result).toMatchObject({ imported: 1, created: 1, updated: 0, skipped: 0, errors: [] });
+      expect(await db.Wrestler.get(1)).toMatchObject({
+        name: 'Gunther',
+        brandIds: [1, 2],
+        alignment: 'HEEL',
+        pushed: true,
+        points: 90,
+        morale: 50,
+        contractType: 'FULL',
+        status: 'SIGNED',
+      });
+    });
+
+    it('should report invalid rows by line and still load the rest', async () => {
+      const result = await call('import_csv', {
+        table: 'Wrestler',
+        data: [
+          'name,brandIds,points,gender',
+          'Gunther,Raw,90,male',
+          'Ludwig Kaiser,NXT,80,male',
+          'Giovanni Vinci,Raw,150,male',
+          '"Tiffany',
+          'Stratton",SmackDown,70,robot',
+          'Sami Zayn,2,85,',
+        ].join('\n'),
+      });
+
+      expect(result).toMatchObject({ imported: 2, created: 2, skipped: 3 });
+      expect(result.errors).toEqual([
+        { line: 3, message: 'brandIds has no Brand named "NXT"' },
+        { line: 4, message: 'points must be between 0 and 100 (got 150)' },
+        { line: 5, message: 'gender must be one of MALE, FEMALE (got "ROBOT")' },
+      ]);
+      expect((await db.Wrestler.toArray()).map(wrestler => wrestler.name)).toEqual(['Gunther', 'Sami Zayn']);
+    });
+
+    it('should update rows whose id exists and report ignored columns', async () => {
+      await db.Wrestler.add({ name: 'Gunther', points: 80, morale: 40 });
+
+      const result = await call('import_csv', { table: 'Wrestler', data: 'id,points,nickname\n1,95,Ring General\n' });
+
+      expect(result).toMatchObject({ created: 0, updated: 1, ignoredColumns: ['nickname'] });
+      expect(await db.Wrestler.get(1)).toMatchObject({ name: 'Gunther', points: 95, morale: 40 });
+    });
+
+    it('should check rows without writing on a dry run', async () => {
+      const result = await call('import_csv', { table: 'Brand', data: 'name\nNXT\n', dryRun: true });
+
+      expect(result).toMatchObject({ dryRun: true, created: 1 });
+      expect(await db.Brand.count()).toBe(2);
+    });
+
+    it('should round trip an export', async () => {
+      await db.Wrestler.add({ name: 'Gunther', brandIds: [1, 2], contractExpires: new Date('2027-01-01T00:00:00.000Z') });
+      const { csv } = await call('export_csv', { table: 'Wrestler', columns: ['name', 'brandIds', 'contractExpires'] });
+
+      await call('import_csv', { table: 'Wrestler', data: csv });
+
+      expect(await db.Wrestler.get(2)).toMatchObject({
+        name: 'Gunther',
+        brandIds: [1, 2],
+        contractExpires: new Date('2027-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should take the formula guard off again on import', async () => {
+      await db.Wrestler.add({ name: '=Gunther', special: "'quoted" });
+      const { csv } = await call('export_csv', { table: 'Wrestler', columns: ['name', 'special'] });
+
+      await call('import_csv', { table: 'Wrestler', data: csv });
+
+      expect(await db.Wrestler.get(2)).toMatchObject({ name: '=Gunther', special: "'quoted" });
+    });
+
+    it('should require data or a file', async () => {
+      expect(await call('import_csv', { table: 'Brand' })).toBe('Error: Provide either data (CSV text) or filePath');
+    });
+  });
+});
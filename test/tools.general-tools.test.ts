@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createGeneralTools } from '../src/tools/general-tools';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { tableNames, internalTables } from '../src/database/schema';
+
+function dexieExport(tables: Record<string, any[]>) {
+  return {
+    formatName: 'dexie',
+    formatVersion: 1,
+    data: {
+      databaseName: 'FedSim00014',
+      databaseVersion: 14,
+      tables: Object.keys(tables).map(name => ({ name, schema: '++id', rowCount: tables[name].length })),
+      data: Object.entries(tables).map(([tableName, rows]) => ({ tableName, inbound: true, rows })),
+    },
+  };
+}
+
+describe('General Tools', () => {
+  let db: SimpleDatabase;
+  let tools: Map<string, any>;
+
+  beforeEach(() => {
+    db = new SimpleDatabase();
+    tools = createGeneralTools(db);
+  });
+
+  describe('table coverage', () => {
+    it('should cover every schema table in stats, backups and Dexie exports', async () => {
+      await db.Faction.add({ name: 'The Bloodline' });
+
+      const stats = await tools.get('get_database_stats').handler({});
+      const backup = await tools.get('backup_data').handler({});
+      const exported = await tools.get('export_dexie_data').handler({ targetVersion: 14 });
+
+      expect(Object.keys(stats.tables)).toEqual(tableNames);
+      expect(stats.tables.Faction).toBe(1);
+      // Fed Simulator X gets its own fields only, none of the server's bookkeeping
+      const [faction] = exported.data.data.find((table: any) => table.tableName === 'Faction').rows;
+      expect(faction).toMatchObject({ id: 1, name: 'The Bloodline' });
+      for (const field of ['_id', '_rev', 'type']) {
+        expect(faction).not.toHaveProperty(field);
+      }
+      expect(backup.metadata.tables).toEqual(tableNames);
+      expect(exported.data.tables.map((table: any) => table.name)).toEqual(tableNames);
+      // The server's own tables stay out of every listing and of what Fed Simulator X imports
+      expect(tableNames).not.toEqual(expect.arrayContaining(internalTables));
+      expect(exported.data.tables.find((table: any) => table.name === 'Appearance').schema)
+        .toBe('++id,wrestlerId,groupId,manager,cost,winner,loser,draw,[groupId+wrestlerId]');
+    });
+  });
+
+  describe('import_dexie_data', () => {
+    it('should import rows keeping their original ids', async () => {
+      const result = await tools.get('import_dexie_data').handler({
+        data: dexieExport({
+          Brand: [{ id: 3, name: 'Raw', balance: 500 }],
+          Wrestler: [{ id: 7, name: 'Becky Lynch', brandIds: [3], contractExpires: '2025-01-01T00:00:00.000Z' }],
+        }),
+      });
+
+      expect(result.totalImported).toBe(2);
+      expect(result.tables.Brand.imported).toBe(1);
+
+      const wrestler = await db.Wrestler.get(7);
+      expect(wrestler.name).toBe('Becky Lynch');
+      expect(wrestler.brandIds).toEqual([3]);
+      expect(wrestler.contractExpires).toBeInstanceOf(Date);
+      expect((await db.Brand.get(3)).name).toBe('Raw');
+    });
+
+    it('should round-trip the output of export_dexie_data', async () => {
+      await db.Brand.put({ id: 1, name: 'SmackDown' });
+      const exported = await tools.get('export_dexie_data').handler({ tables: ['Brand'] });
+
+      const target = new SimpleDatabase();
+      const targetTools = createGeneralTools(target);
+      const result = await targetTools.get('import_dexie_data').handler({ data: JSON.stringify(exported) });
+
+      expect(result.tables.Brand.imported).toBe(1);
+      expect((await target.Brand.get(1)).name).toBe('SmackDown');
+    });
+
+    it('should migrate exports between schema versions', async () => {
+      await db.ActiveStoryline.put({ id: 4, name: 'Bloodline Civil War', targetDate: new Date('2025-04-20T00:00:00.000Z') });
+      // Version 17 is what Fed Simulator X has always been given
+      const exported = await tools.get('export_dexie_data').handler({ tables: ['ActiveStoryline'] });
+
+      expect(exported.data.databaseName).toBe('FedSim00017');
+      expect(exported.data.tables[0].name).toBe('Storyline');
+      expect(exported.data.data[0].rows[0]).toMatchObject({ id: 4, endDate: new Date('2025-04-20T00:00:00.000Z') });
+      expect(exported.migration.steps[0].changes).toContain('Renamed table ActiveStoryline to Storyline (1 rows)');
+
+      const target = new SimpleDatabase();
+      const result = await createGeneralTools(target).get('import_dexie_data').handler({ data: JSON.stringify(exported) });
+
+      expect(result.migration).toMatchObject({ from: 17, to: 14 });
+      expect(result.tables.ActiveStoryline.imported).toBe(1);
+      expect((await target.ActiveStoryline.get(4)).targetDate).toEqual(new Date('2025-04-20T00:00:00.000Z'));
+    });
+
+    it('should report skipped rows, unknown tables and schema mismatches', async () => {
+      const result = await tools.get('import_dexie_data').handler({
+        data: dexieExport({
+          Company: [{ name: 'No id' }, { id: 2, name: 'WWE', founded: 1953 }],
+          StorylineBeat: [{ id: 1 }],
+        }),
+      });
+
+      expect(result.tables.Company).toMatchObject({ imported: 1, skipped: 1 });
+      expect(result.tables.Company.skippedRows[0]).toEqual({ index: 0, reason: 'Row has no numeric id' });
+      expect(result.skippedTables).toEqual(['StorylineBeat']);
+
+      const mismatch = result.schemaMismatches.find((m: any) => m.table === 'Company');
+      expect(mismatch.unknownFields).toEqual(['founded']);
+      expect(mismatch.missingFields).toContain('desc');
+    });
+
+    it('should load an export from a file path', async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), 'fedsim-import-'));
+      const filePath = path.join(dir, 'export.json');
+      await writeFile(filePath, JSON.stringify(dexieExport({ Venue: [{ id: 9, name: 'Madison Square Garden' }] })));
+
+      try {
+        const result = await tools.get('import_dexie_data').handler({ filePath, tables: ['Venue'] });
+        expect(result.tables.Venue.imported).toBe(1);
+        expect((await db.Venue.get(9)).name).toBe('Madison Square Garden');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should remap ids and the references between imported tables', async () => {
+      await db.Brand.add({ name: 'Existing Brand' });
+      await db.Wrestler.add({ name: 'Existing Wrestler' });
+
+      const result = await tools.get('import_dexie_data').handler({
+        remapIds: true,
+        data: dexieExport({
+          Brand: [{ id: 1, name: 'Raw' }],
+          Wrestler: [{ id: 1, name: 'Seth Rollins', brandIds: [1] }],
+          Appearance: [{ id: 1, wrestlerId: 1, groupId: 1 }],
+          Segment: [{ id: 1, name: 'Opener', appearanceIds: [1] }],
+          Production: [{ id: 1, name: 'Raw', brandIds: [1], segmentIds: [1, 99] }],
+        }),
+      });
+
+      expect(result.idMap.Brand).toEqual({ 1: 2 });
+      expect(result.idMap.Wrestler).toEqual({ 1: 2 });
+      expect(result.unresolvedReferences).toBe(1);
+
+      expect((await db.Wrestler.get(1)).name).toBe('Existing Wrestler');
+      expect((await db.Wrestler.get(2)).brandIds).toEqual([2]);
+      expect((await db.Appearance.get(1)).wrestlerId).toBe(2);
+      expect((await db.Production.get(1)).segmentIds).toEqual([1, 99]);
+    });
+
+    it('should remap every reference field from the relation list', async () => {
+      for (const table of ['Company', 'Venue', 'Show', 'Championship', 'Wrestler', 'Segment']) {
+        await (db as any)[table].add({ name: `Existing ${table}` });
+      }
+
+      const result = await tools.get('import_dexie_data').handler({
+        remapIds: true,
+        data: dexieExport({
+          Company: [{ id: 1, name: 'WWE' }],
+          Brand: [{ id: 1, name: 'Raw', companyId: 1 }],
+          Venue: [{ id: 1, name: 'Madison Square Garden' }],
+          Show: [{ id: 1, name: 'Monday Night Raw' }],
+          Wrestler: [{ id: 1, name: 'Seth Rollins' }],
+          Championship: [{ id: 1, name: 'World Heavyweight Championship', wrestlerIds: [1] }],
+          Reign: [{ id: 1, championshipId: 1, wrestlerIds: [1] }],
+          Faction: [{ id: 1, name: 'The Shield', wrestlerIds: [1] }],
+          Segment: [{ id: 1, name: 'Opener' }],
+          Bet: [{ id: 1, segmentId: 1 }],
+          Production: [{ id: 1, name: 'Raw', venueId: 1, showId: 1, segmentIds: [1] }],
+        }),
+      });
+
+      expect(result.unresolvedReferences).toBe(0);
+      expect((await db.Brand.get(1)).companyId).toBe(2);
+      expect((await db.Championship.get(2)).wrestlerIds).toEqual([2]);
+      expect(await db.Reign.get(1)).toMatchObject({ championshipId: 2, wrestlerIds: [2] });
+      expect((await db.Faction.get(1)).wrestlerIds).toEqual([2]);
+      expect((await db.Bet.get(1)).segmentId).toBe(2);
+      expect(await db.Production.get(1)).toMatchObject({ venueId: 2, showId: 2, segmentIds: [2] });
+    });
+
+    it('should import nothing when a table fails part way', async () => {
+      await db.Brand.put({ id: 1, name: 'Existing Brand' });
+      vi.spyOn(db.Wrestler, 'put').mockRejectedValueOnce(new Error('Disk full'));
+
+      const result = await tools.get('import_dexie_data').handler({
+        clearExisting: true,
+        data: dexieExport({
+          Brand: [{ id: 1, name: 'Raw' }],
+          Wrestler: [{ id: 1, name: 'Seth Rollins', brandIds: [1] }],
+        }),
+      });
+
+      expect(result).toBe('Error: Disk full');
+      expect(await db.Brand.toArray()).toEqual([expect.objectContaining({ id: 1, name: 'Existing Brand' })]);
+      expect(await db.Wrestler.count()).toBe(0);
+    });
+
+    it('should never write the server\'s own tables', async () => {
+      const result = await tools.get('import_dexie_data').handler({
+        data: dexieExport({ Trash: [{ id: 1, table: 'Wrestler', recordId: 1, records: [], references: [] }] }),
+      });
+
+      expect(result.skippedTables).toEqual(['Trash']);
+      expect(await db.Trash.count()).toBe(0);
+    });
+
+    it('should reject data that is not a Dexie export', async () => {
+      const result = await tools.get('import_dexie_data').handler({ data: { hello: 'world' } });
+      expect(result).toMatch(/^Error: Not a Dexie export/);
+    });
+  });
+
+  describe('restore_backup', () => {
+    let backup: any;
+
+    beforeEach(async () => {
+      await db.Brand.put({ id: 1, name: 'Raw', balance: 1000 });
+      await db.Brand.put({ id: 2, name: 'SmackDown', balance: 2000 });
+      backup = await tools.get('backup_data').handler({ tables: ['Brand'] });
+
+      await db.Brand.update(1, { balance: 0 });
+      await db.Brand.delete(2);
+      await db.Brand.put({ id: 3, name: 'NXT', balance: 300 });
+    });
+
+    it('should report changes without writing on a dry run', async () => {
+      const result = await tools.get('restore_backup').handler({ backup, mode: 'replace', dryRun: true });
+
+      expect(result.tables.Brand).toEqual({ created: [2], overwritten: [1], deleted: [3] });
+      expect(result.summary).toEqual({ created: 1, overwritten: 1, deleted: 1 });
+      expect((await db.Brand.get(1)).balance).toBe(0);
+      expect(await db.Brand.get(3)).toBeDefined();
+    });
+
+    it('should make tables match the backup in replace mode', async () => {
+      await tools.get('restore_backup').handler({ backup: JSON.stringify(backup), mode: 'replace' });
+
+      const brands = await db.Brand.toArray();
+      expect(brands.map((b: any) => b.id).sort()).toEqual([1, 2]);
+      expect((await db.Brand.get(1)).balance).toBe(1000);
+    });
+
+    it('should keep records missing from the backup in merge mode', async () => {
+      const result = await tools.get('restore_backup').handler({ backup, mode: 'merge' });
+
+      expect(result.tables.Brand.deleted).toEqual([]);
+      expect(await db.Brand.count()).toBe(3);
+      expect((await db.Brand.get(2)).name).toBe('SmackDown');
+    });
+
+    it('should restore the id counter saved with the backup', async () => {
+      expect(backup.metadata.sequences.Brand).toBe(3);
+      await tools.get('restore_backup').handler({ backup, mode: 'replace' });
+
+      expect(await db.Brand.add({ name: 'ECW' })).toBe(3);
+    });
+
+    it('should only restore the selected tables', async () => {
+      await db.Company.put({ id: 1, name: 'WWE' });
+      const fullBackup = await tools.get('backup_data').handler({ tables: ['Brand', 'Company'] });
+      await db.Company.update(1, { name: 'AEW' });
+
+      const result = await tools.get('restore_backup').handler({ backup: fullBackup, tables: ['Brand'], mode: 'replace' });
+
+      expect(Object.keys(result.tables)).toEqual(['Brand']);
+      expect((await db.Company.get(1)).name).toBe('AEW');
+    });
+
+    it('should check every table before writing anything', async () => {
+      const result = await tools.get('restore_backup').handler({ backup, tables: ['Brand', 'Company'], mode: 'replace' });
+
+      expect(result).toBe("Error: Backup does not contain table 'Company'");
+      expect(await db.Brand.count()).toBe(2);
+      expect((await db.Brand.get(1)).balance).toBe(0);
+    });
+
+    it('should refuse a table that is not a list of records', async () => {
+      const malformed = { ...backup, backup: { ...backup.backup, Brand: { id: 1, name: 'Raw' } } };
+
+      expect(await tools.get('restore_backup').handler({ backup: malformed })).toBe("Error: Backup does not contain table 'Brand'");
+    });
+
+    it('should put every table back when a write fails part way', async () => {
+      await db.Company.put({ id: 1, name: 'AEW' });
+      const fullBackup = { ...backup, backup: { ...backup.backup, Company: [{ id: 1, name: 'WWE' }] } };
+      vi.spyOn(db.Company, 'put').mockRejectedValueOnce(new Error('Disk full'));
+
+      const result = await tools.get('restore_backup').handler({ backup: fullBackup, tables: ['Brand', 'Company'], mode: 'replace' });
+
+      expect(result).toBe('Error: Disk full');
+      expect((await db.Brand.toArray()).map((b: any) => b.id).sort()).toEqual([1, 3]);
+      expect((await db.Brand.get(1)).balance).toBe(0);
+      expect((await db.Company.get(1)).name).toBe('AEW');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { Journal } from '../src/database/journal';
+import { createIntegrityTools } from '../src/tools/integrity-tools';
+import { createHistoryTools } from '../src/tools/history-tools';
+import { toolCaller, useTempDir } from './helpers';
+
+describe('Integrity Tools', () => {
+  const dataDir = useTempDir('integrity');
+  let db: SimpleDatabase;
+  let tools: Map<string, any>;
+
+  const call = toolCaller(() => tools);
+
+  // Write table files directly, the way a hand-edited or older data directory would look
+  const open = async (tables: Record<string, any[]>) => {
+    for (const [table, rows] of Object.entries(tables)) {
+      const docs = rows.map(row => ({ ...row, _id: `${table.toLowerCase()}:${row.id}`, type: table }));
+      await writeFile(path.join(dataDir(), `${table}.json`), JSON.stringify({ docs }));
+    }
+    db = new SimpleDatabase();
+    await db.open({ dataDir: dataDir() });
+    const journal = new Journal(db);
+    await journal.open();
+    tools = new Map([...createIntegrityTools(db), ...createHistoryTools(journal)]);
+  };
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  const brokenUniverse = () => open({
+    Brand: [{ id: 1, name: 'Raw', balance: -5000 }],
+    Wrestler: [{ id: 1, name: 'Gunther', points: 120, morale: -3, brandIds: [1, 7] }],
+    Appearance: [
+      { id: 1, wrestlerId: 1, groupId: 1 },
+      { id: 2, wrestlerId: 42, groupId: 1 },
+    ],
+    Segment: [
+      { id: 1, name: 'Main Event', appearanceIds: [1, 2] },
+      { id: 2, name: 'Dark Match', appearanceIds: [] },
+    ],
+    Production: [
+      { id: 1, name: 'Raw', segmentIds: [1, 9], complete: false },
+      { id: 2, name: 'Cancelled Show', segmentIds: [8], complete: true },
+    ],
+  });
+
+  it('should report nothing for a consistent database', async () => {
+    await open({
+      Wrestler: [{ id: 1, name: 'Gunther', points: 90 }],
+      Appearance: [{ id: 1, wrestlerId: 1 }],
+      Segment: [{ id: 1, name: 'Main Event', appearanceIds: [1] }],
+      Production: [{ id: 1, name: 'Raw', segmentIds: [1], complete: true }],
+    });
+
+    expect(await call('check_integrity')).toEqual({
+      summary: { errors: 0, warnings: 0 },
+      findings: { error: [], warning: [] },
+    });
+  });
+
+  it('should find every problem grouped by severity', async () => {
+    await brokenUniverse();
+
+    const report = await call('check_integrity');
+
+    expect(report.summary).toEqual({ errors: 6, warnings: 3 });
+    expect(report.findings.error).toEqual(expect.arrayContaining([
+      expect.objectContaining({ check: 'dangling-reference', table: 'Appearance', id: 2, field: 'wrestlerId', fix: 'set wrestlerId to null' }),
+      expect.objectContaining({ check: 'dangling-reference', table: 'Production', id: 1, field: 'segmentIds', fix: 'remove 9 from segmentIds' }),
+      expect.objectContaining({ check: 'dangling-reference', table: 'Production', id: 2, field: 'segmentIds' }),
+      expect.objectContaining({ check: 'dangling-reference', table: 'Wrestler', id: 1, field: 'brandIds', message: 'brandIds points at missing Brand 7' }),
+      expect.objectContaining({ check: 'stat-out-of-range', field: 'points', message: 'Gunther has points 120 (expected 0-100)' }),
+      expect.objectContaining({ check: 'stat-out-of-range', field: 'morale', fix: 'set morale to 0' }),
+    ]));
+    expect(report.findings.warning).toEqual(expect.arrayContaining([
+      expect.objectContaining({ check: 'orphan-segment', table: 'Segment', id: 2 }),
+      expect.objectContaining({ check: 'negative-balance', table: 'Brand', id: 1 }),
+      expect.objectContaining({ check: 'empty-completed-production', table: 'Production', id: 2 }),
+    ]));
+  });
+
+  it('should only run the requested checks', async () => {
+    await brokenUniverse();
+
+    const report = await call('check_integrity', { checks: ['negative-balance'] });
+
+    expect(report.summary).toEqual({ errors: 0, warnings: 1 });
+  });
+
+  it('should leave the data alone unless repair is requested', async () => {
+    await brokenUniverse();
+    await call('check_integrity');
+
+    expect((await db.Wrestler.get(1)).points).toBe(120);
+  });
+
+  it('should repair every finding', async () => {
+    await brokenUniverse();
+
+    const report = await call('check_integrity', { repair: true });
+
+    expect(report.repair).toEqual({ repaired: 9, failed: [], remaining: 0 });
+    expect(await db.Appearance.get(2)).toMatchObject({ wrestlerId: null });
+    expect(await db.Wrestler.get(1)).toMatchObject({ points: 100, morale: 0, brandIds: [1] });
+    expect(await db.Brand.get(1)).toMatchObject({ balance: 0 });
+    expect(await db.Production.get(1)).toMatchObject({ segmentIds: [1] });
+    expect(await db.Production.get(2)).toMatchObject({ segmentIds: [], complete: false });
+    expect(await db.Segment.get(2)).toBeUndefined();
+    expect(await call('check_integrity')).toMatchObject({ summary: { errors: 0, warnings: 0 } });
+  });
+
+  it('should undo a repair as one change', async () => {
+    await brokenUniverse();
+    await call('check_integrity', { checks: ['orphan-segment', 'negative-balance'], repair: true });
+
+    await call('undo');
+
+    expect(await db.Brand.get(1)).toMatchObject({ balance: -5000 });
+    expect(await db.Segment.get(2)).toMatchObject({ name: 'Dark Match' });
+  });
+});
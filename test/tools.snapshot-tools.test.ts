@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'path';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { MAX_SANDBOXES } from '../src/database/sandbox';
+import { SnapshotStore } from '../src/database/snapshots';
+import { Journal } from '../src/database/journal';
+import { createSnapshotTools } from '../src/tools/snapshot-tools';
+import { createProductionTools } from '../src/tools/production-tools';
+import { createHistoryTools } from '../src/tools/history-tools';
+import { toolCaller, useTempDir } from './helpers';
+
+describe('Snapshot Tools', () => {
+  const dataDir = useTempDir('snapshots');
+  let db: SimpleDatabase;
+  let store: SnapshotStore;
+  let tools: Map<string, any>;
+
+  const call = toolCaller(() => tools);
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    store = new SnapshotStore(path.join(dataDir(), 'snapshots'));
+    await store.open();
+    const journal = new Journal(db);
+    await journal.open();
+    tools = new Map([...createSnapshotTools(db, store), ...createProductionTools(db), ...createHistoryTools(journal)]);
+  });
+
+  const bookMatch = async () => {
+    const wrestlers = [];
+    for (const name of ['Gunther', 'Sami Zayn']) {
+      wrestlers.push(await db.Wrestler.add({ name, wins: 0, losses: 0, streak: 0, morale: 50, popularity: 50, points: 80, charisma: 60 }));
+    }
+    const appearanceIds = [];
+    for (const wrestlerId of wrestlers) {
+      appearanceIds.push(await db.Appearance.add({ wrestlerId, groupId: 1, cost: 100 }));
+    }
+    const segmentId = await db.Segment.add({ name: 'Title Match', appearanceIds, duration: 20, complete: false });
+    return db.Production.add({ name: 'WrestleMania', segmentIds: [segmentId], complete: false });
+  };
+
+  describe('snapshots', () => {
+    it('should create and list snapshots', async () => {
+      await db.Wrestler.add({ name: 'Gunther' });
+
+      const created = await call('create_snapshot', { name: 'before-mania', description: 'Original card' });
+      const listed = await call('list_snapshots');
+
+      expect(created).toMatchObject({ name: 'before-mania', totalRecords: 1 });
+      expect(listed).toEqual([expect.objectContaining({ name: 'before-mania', description: 'Original card', totalRecords: 1 })]);
+    });
+
+    it('should refuse to overwrite a snapshot unless asked', async () => {
+      await call('create_snapshot', { name: 'card' });
+
+      expect(await call('create_snapshot', { name: 'card' })).toBe("Error: Snapshot 'card' already exists (pass overwrite: true to replace it)");
+      expect(await call('create_snapshot', { name: 'card', overwrite: true })).toMatchObject({ name: 'card' });
+    });
+
+    it('should reject names that are not safe file names', async () => {
+      expect(await call('create_snapshot', { name: '../card' })).toContain("Invalid snapshot name '../card'");
+    });
+
+    it('should diff a snapshot against the universe and another snapshot', async () => {
+      const id = await db.Wrestler.add({ name: 'Gunther', points: 80 });
+      await call('create_snapshot', { name: 'before' });
+      await db.Wrestler.update(id, { points: 90 });
+      await db.Brand.add({ name: 'Raw' });
+      await call('create_snapshot', { name: 'after' });
+
+      const diff = await call('diff_snapshot', { name: 'before' });
+
+      expect(diff.summary).toEqual({ added: 1, removed: 0, changed: 1 });
+      expect(diff.tables.Wrestler.changed).toEqual([{ id, fields: { points: { from: 80, to: 90 } } }]);
+      expect(diff.tables.Brand.added).toEqual([1]);
+      expect((await call('diff_snapshot', { name: 'before', against: 'after' })).summary).toEqual(diff.summary);
+    });
+
+    it('should restore a snapshot and let undo revert the restore', async () => {
+      const id = await db.Wrestler.add({ name: 'Gunther', points: 80 });
+      await call('create_snapshot', { name: 'before' });
+      await db.Wrestler.update(id, { points: 90 });
+      await db.Wrestler.add({ name: 'Ludwig Kaiser' });
+
+      const restored = await call('restore_snapshot', { name: 'before' });
+
+      expect(restored.restored).toEqual({ added: 0, removed: 1, changed: 1 });
+      expect(await db.Wrestler.toArray()).toEqual([expect.objectContaining({ id, points: 80 })]);
+      // Ids handed out after the snapshot are not reused
+      expect(await db.Wrestler.add({ name: 'Giovanni Vinci' })).toBe(3);
+
+      await call('undo');
+      await call('undo');
+      expect((await db.Wrestler.get(id)).points).toBe(90);
+    });
+
+    it('should leave the universe untouched when a restore fails part way', async () => {
+      const id = await db.Wrestler.add({ name: 'Gunther', points: 80 });
+      await db.Brand.add({ name: 'Raw' });
+      await call('create_snapshot', { name: 'before' });
+      await db.Wrestler.update(id, { points: 90 });
+      await db.Brand.update(1, { name: 'Monday Night Raw' });
+      vi.spyOn(db.Wrestler, 'put').mockRejectedValueOnce(new Error('Disk full'));
+
+      expect(await call('restore_snapshot', { name: 'before' })).toBe('Error: Disk full');
+      expect((await db.Brand.get(1)).name).toBe('Monday Night Raw');
+      expect((await db.Wrestler.get(id)).points).toBe(90);
+    });
+
+    it('should keep snapshots across restarts', async () => {
+      await db.Wrestler.add({ name: 'Gunther', contractExpires: new Date('2027-01-01T00:00:00.000Z') });
+      await call('create_snapshot', { name: 'saved' });
+
+      const reopened = new SnapshotStore(path.join(dataDir(), 'snapshots'));
+      await reopened.open();
+
+      expect(reopened.get('saved').tables.Wrestler[0].contractExpires).toEqual(new Date('2027-01-01T00:00:00.000Z'));
+      expect(reopened.get('saved').createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('sandboxes', () => {
+    it('should simulate on a copy and leave the universe untouched', async () => {
+      const productionId = await bookMatch();
+
+      const result = await call('simulate_production', { id: productionId, sandbox: true });
+
+      expect(result.production.complete).toBe(true);
+      expect(result.sandbox.id).toBe(1);
+      expect(result.sandbox.changes.changed).toBeGreaterThan(0);
+      expect((await db.Production.get(productionId)).complete).toBe(false);
+      expect((await db.Segment.get(1)).complete).toBe(false);
+    });
+
+    it('should commit the sandbox results', async () => {
+      const productionId = await bookMatch();
+      const result = await call('simulate_production', { id: productionId, sandbox: true });
+
+      const committed = await call('commit_sandbox', { id: result.sandbox.id });
+
+      expect(committed.tables).toContain('Production');
+      expect(await db.Production.get(productionId)).toMatchObject({ complete: true, attendance: result.production.attendance });
+      expect(await call('list_sandboxes')).toEqual([]);
+    });
+
+    it('should keep the best of several tries', async () => {
+      const productionId = await bookMatch();
+      await call('simulate_production', { id: productionId, sandbox: true });
+      const second = await call('simulate_production', { id: productionId, sandbox: true });
+
+      expect((await call('list_sandboxes')).map((sandbox: any) => sandbox.id)).toEqual([1, 2]);
+
+      await call('commit_sandbox', { id: second.sandbox.id });
+      expect((await db.Production.get(productionId)).attendance).toBe(second.production.attendance);
+
+      // The other try was based on the old universe and can no longer be committed
+      expect(await call('commit_sandbox', { id: 1 })).toMatch(/^Error: Cannot commit sandbox 1: \w+ \d+ changed in the universe/);
+      expect(await call('discard_sandbox')).toEqual({ discarded: [1] });
+    });
+
+    it('should limit how many sandboxes are open at once', async () => {
+      const productionId = await bookMatch();
+      for (let i = 0; i < MAX_SANDBOXES; i++) {
+        await call('simulate_production', { id: productionId, sandbox: true });
+      }
+
+      expect(await call('simulate_production', { id: productionId, sandbox: true })).toBe(
+        `Error: Too many sandboxes: ${MAX_SANDBOXES} are open already; commit or discard one first`
+      );
+      await call('discard_sandbox', { id: 1 });
+      expect((await call('simulate_production', { id: productionId, sandbox: true })).sandbox.id).toBe(MAX_SANDBOXES + 1);
+    });
+
+    it('should report failed simulations without keeping a sandbox', async () => {
+      expect(await call('simulate_production', { id: 99, sandbox: true })).toBe('Error: Production with ID 99 not found');
+      expect(await call('list_sandboxes')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { Journal } from '../src/database/journal';
+import { createTrashTools } from '../src/tools/trash-tools';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+import { createProductionTools } from '../src/tools/production-tools';
+import { createBrandTools } from '../src/tools/brand-tools';
+import { createHistoryTools } from '../src/tools/history-tools';
+import { toolCaller } from './helpers';
+
+describe('Trash Tools', () => {
+  let db: SimpleDatabase;
+  let tools: Map<string, any>;
+  let wrestlerId: number;
+  let appearanceId: number;
+  let segmentId: number;
+  let productionId: number;
+
+  const call = toolCaller(() => tools);
+
+  beforeEach(async () => {
+    db = new SimpleDatabase();
+    const journal = new Journal(db);
+    await journal.open();
+    tools = new Map([
+      ...createTrashTools(db),
+      ...createWrestlerTools(db),
+      ...createProductionTools(db),
+      ...createBrandTools(db),
+      ...createHistoryTools(journal),
+    ]);
+
+    const raw = await db.Brand.add({ name: 'Raw', balance: 1000 });
+    const smackDown = await db.Brand.add({ name: 'SmackDown', balance: 1000 });
+    wrestlerId = await db.Wrestler.add({ name: 'Bayley', points: 80, wins: 12, brandIds: [raw, smackDown] });
+    appearanceId = await db.Appearance.add({ wrestlerId, groupId: 1, cost: 100 });
+    segmentId = await db.Segment.add({ name: 'Opener', appearanceIds: [appearanceId], complete: false });
+    productionId = await db.Production.add({ name: 'Raw #1', brandIds: [raw], segmentIds: [segmentId], complete: false });
+  });
+
+  it('should move a deleted wrestler to the trash', async () => {
+    const result = await call('delete_wrestler', { id: wrestlerId });
+
+    expect(result).toMatchObject({ id: wrestlerId, deleted: true, trashId: 1 });
+    expect(await call('list_wrestlers')).toEqual([]);
+    expect(await call('list_trash')).toEqual({
+      count: 1,
+      entries: [{
+        id: 1,
+        table: 'Wrestler',
+        recordId: wrestlerId,
+        name: 'Bayley',
+        deletedAt: expect.any(Date),
+        cascaded: [],
+        references: 1,
+      }],
+    });
+  });
+
+  it('should restore a wrestler with their full record and appearances', async () => {
+    await call('delete_wrestler', { id: wrestlerId });
+    expect(await db.Appearance.get(appearanceId)).toMatchObject({ wrestlerId: null });
+
+    const result = await call('restore_from_trash', { id: 1 });
+
+    expect(result).toEqual({
+      id: 1,
+      restored: [{ table: 'Wrestler', id: wrestlerId }],
+      relinked: [{ table: 'Appearance', id: appearanceId, field: 'wrestlerId' }],
+    });
+    expect(await db.Wrestler.get(wrestlerId)).toMatchObject({ name: 'Bayley', points: 80, wins: 12, brandIds: [1, 2] });
+    expect(await db.Appearance.get(appearanceId)).toMatchObject({ wrestlerId });
+    expect(await call('list_trash')).toEqual({ count: 0, entries: [] });
+  });
+
+  it('should restore the segments and appearances of a production', async () => {
+    const result = await call('delete_production', { id: productionId });
+    expect(result.cascaded).toHaveLength(2);
+    expect(await db.Segment.count()).toBe(0);
+
+    await call('restore_from_trash', { id: result.trashId });
+
+    expect(await db.Production.get(productionId)).toMatchObject({ segmentIds: [segmentId] });
+    expect(await db.Segment.get(segmentId)).toMatchObject({ appearanceIds: [appearanceId] });
+    expect(await db.Appearance.get(appearanceId)).toMatchObject({ wrestlerId });
+  });
+
+  it('should put a brand back into id lists without dropping ids added since', async () => {
+    await call('delete_brand', { id: 1 });
+    const nxt = await db.Brand.add({ name: 'NXT' });
+    await db.Wrestler.update(wrestlerId, { brandIds: [2, nxt] });
+
+    await call('restore_from_trash', { id: 1 });
+
+    expect((await db.Wrestler.get(wrestlerId)).brandIds).toEqual([1, 2, nxt]);
+    expect((await db.Production.get(productionId)).brandIds).toEqual([1]);
+  });
+
+  it('should drop the trash entry when the delete is undone', async () => {
+    await call('delete_wrestler', { id: wrestlerId });
+    await call('undo');
+
+    expect(await call('list_trash')).toMatchObject({ count: 0 });
+    expect(await call('restore_from_trash', { id: 1 })).toBe('Error: Trash entry 1 not found');
+  });
+
+  it('should fail without changes when an id has been taken since', async () => {
+    await call('delete_wrestler', { id: wrestlerId });
+    await db.Wrestler.put({ id: wrestlerId, name: 'Someone Else' });
+
+    expect(await call('restore_from_trash', { id: 1 })).toBe(
+      `Error: Cannot restore Wrestler ${wrestlerId}: Wrestler ${wrestlerId} already exists`
+    );
+    expect(await db.Appearance.get(appearanceId)).toMatchObject({ wrestlerId: null });
+    expect(await call('list_trash')).toMatchObject({ count: 1 });
+  });
+
+  it('should empty the trash by table or entirely', async () => {
+    await call('delete_wrestler', { id: wrestlerId });
+    await call('delete_brand', { id: 2 });
+
+    expect(await call('empty_trash', { table: 'Brand' })).toEqual({ removed: 1, ids: [2] });
+    expect(await call('list_trash')).toMatchObject({ count: 1, entries: [{ table: 'Wrestler' }] });
+    expect(await call('empty_trash')).toEqual({ removed: 1, ids: [1] });
+    expect(await db.Trash.count()).toBe(0);
+  });
+});
@@ -24,7 +24,11 @@ describe('Wrestler Tools', () => {
           })),
           toArray: vi.fn().mockResolvedValue([])
         }))
-      }
+      },
+      Trash: {
+        add: vi.fn().mockResolvedValue(1),
+      },
+      transaction: vi.fn(fn => fn()),
     };
 
     tools = createWrestlerTools(mockDb as FedSimDatabase);
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer, type HttpServer, type HttpServerOptions } from '../src/transports/http';
+
+describe('Streamable HTTP transport', () => {
+  let http: HttpServer;
+  let connected: number;
+  let closed: number;
+
+  const start = (options: Partial<HttpServerOptions> = {}) => startHttpServer({
+      port: 0,
+      connect: async transport => {
+        const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+          tools: [{ name: 'list_wrestlers', inputSchema: { type: 'object' } }],
+        }));
+        server.onclose = () => closed++;
+        connected++;
+        await server.connect(transport);
+      },
+      health: () => ({ universe: 'default' }),
+      ...options,
+    });
+
+  beforeEach(async () => {
+    connected = 0;
+    closed = 0;
+    http = await start();
+  });
+
+  afterEach(async () => {
+    await http.close();
+  });
+
+  const connect = async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`));
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  const health = async () => {
+    const response = await fetch(`${http.url}/health`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('should give each client its own session', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    expect(first.transport.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.transport.sessionId).not.toBe(first.transport.sessionId);
+    expect(connected).toBe(2);
+    expect((await first.client.listTools()).tools.map(tool => tool.name)).toEqual(['list_wrestlers']);
+    expect(await health()).toEqual({ status: 200, body: { status: 'ok', sessions: 2, universe: 'default' } });
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should end a session on DELETE', async () => {
+    const { client, transport } = await connect();
+
+    await transport.terminateSession();
+
+    expect(closed).toBe(1);
+    expect(http.sessionCount()).toBe(0);
+    await client.close();
+  });
+
+  it('should refuse requests without a session or with an unknown one', async () => {
+    const post = (headers: Record<string, string>) => fetch(`${http.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    const withoutSession = await post({});
+    expect(withoutSession.status).toBe(400);
+    expect((await withoutSession.json()).error.message).toMatch(/initialize request/);
+
+    const unknownSession = await post({ 'Mcp-Session-Id': 'no-such-session' });
+    expect(unknownSession.status).toBe(404);
+    expect((await unknownSession.json()).error).toEqual({ code: -32001, message: 'Session not found' });
+
+    expect((await fetch(`${http.url}/elsewhere`)).status).toBe(404);
+  });
+
+  const initialize = (headers: Record<string, string>) => fetch(`${http.url}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'curl', version: '1.0.0' } },
+    }),
+  });
+
+  it('should not keep a session for an initialize request the SDK refuses', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await initialize({})).status).toBe(406);
+    }
+    const { client } = await connect();
+
+    expect(connected).toBe(4);
+    expect(closed).toBe(3);
+    expect(http.sessionCount()).toBe(1);
+    await client.close();
+  });
+
+  it('should refuse browser requests from other origins', async () => {
+    const accept = { Accept: 'application/json, text/event-stream' };
+
+    const foreign = await initialize({ ...accept, Origin: 'http://evil.example' });
+    expect(foreign.status).toBe(403);
+    expect((await foreign.json()).error.message).toBe('Forbidden: origin http://evil.example is not allowed');
+    expect(connected).toBe(0);
+
+    expect((await initialize({ ...accept, Origin: 'http://localhost:5173' })).status).toBe(200);
+    expect((await initialize({ ...accept, Origin: 'http://[::1]:5173' })).status).toBe(200);
+    expect(http.sessionCount()).toBe(2);
+  });
+
+  it('should accept the configured origins', async () => {
+    await http.close();
+    http = await start({ allowedOrigins: ['https://booker.example'] });
+
+    const response = await initialize({ Accept: 'application/json, text/event-stream', Origin: 'https://booker.example' });
+    expect(response.status).toBe(200);
+  });
+
+  it('should end sessions that stay idle', async () => {
+    await http.close();
+    http = await start({ sessionIdleTimeout: 50 });
+    // A client holding an event stream open is not idle, even without sending anything
+    const { client } = await connect();
+    const response = await initialize({ Accept: 'application/json, text/event-stream' });
+    await response.text();
+    expect(http.sessionCount()).toBe(2);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(http.sessionCount()).toBe(1);
+    expect(closed).toBe(1);
+    expect((await client.listTools()).tools).toHaveLength(1);
+    await client.close();
+  });
+
+  it('should close every session when shutting down', async () => {
+    const { client } = await connect();
+    await connect();
+
+    await http.close();
+
+    expect(closed).toBe(2);
+    expect(http.sessionCount()).toBe(0);
+    await expect(fetch(`${http.url}/health`)).rejects.toThrow();
+    await client.close();
+  });
+});
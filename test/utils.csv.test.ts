@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, formatCsv } from '../src/utils/csv';
+
+describe('CSV', () => {
+  it('should parse quoted fields and number records by line', () => {
+    const { header, records } = parseCsv('name,desc\r\nGunther,"Ring General, ""Imperium"""\n\n"Sami\nZayn",Ucey\n');
+
+    expect(header).toEqual(['name', 'desc']);
+    expect(records).toEqual([
+      { line: 2, values: ['Gunther', 'Ring General, "Imperium"'] },
+      { line: 4, values: ['Sami\nZayn', 'Ucey'] },
+    ]);
+  });
+
+  it('should keep empty cells and a trailing empty column', () => {
+    expect(parseCsv('\uFEFFa,b,c\n1,,\n').records).toEqual([{ line: 2, values: ['1', '', ''] }]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCsv('name\n"Gunther\n')).toThrow('Unterminated quoted field starting on line 2');
+  });
+
+  it('should quote only where needed and round trip', () => {
+    const csv = formatCsv(['name', 'desc'], [['Gunther', 'Ring General, "Imperium"'], ['Sami\nZayn', '']]);
+
+    expect(csv).toBe('name,desc\nGunther,"Ring General, ""Imperium"""\n"Sami\nZayn",\n');
+    expect(parseCsv(csv).records.map(record => record.values)).toEqual([
+      ['Gunther', 'Ring General, "Imperium"'],
+      ['Sami\nZayn', ''],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { validateArguments } from '../src/utils/json-schema';
+import { SimpleDatabase } from '../src/database/simple-db';
+import { createProductionTools } from '../src/tools/production-tools';
+import { createGeneralTools } from '../src/tools/general-tools';
+import { createWrestlerTools } from '../src/tools/wrestler-tools';
+
+describe('validateArguments', () => {
+  const db = new SimpleDatabase();
+  const schemaOf = (tools: Map<string, any>, name: string) => tools.get(name).inputSchema;
+  const updateProduction = schemaOf(createProductionTools(db), 'update_production');
+  const createProduction = schemaOf(createProductionTools(db), 'create_production');
+  const searchDatabase = schemaOf(createGeneralTools(db), 'search_database');
+  const updateWrestler = schemaOf(createWrestlerTools(db), 'update_wrestler');
+
+  it('should accept valid arguments and fill in defaults', () => {
+    expect(validateArguments(searchDatabase, { table: 'Wrestler', searchTerm: 'Cody' })).toEqual({
+      args: { table: 'Wrestler', searchTerm: 'Cody', limit: 20 },
+      errors: [],
+    });
+  });
+
+  it('should report missing required fields', () => {
+    expect(validateArguments(updateProduction, { id: 1 }).errors).toEqual([
+      { field: 'updates', message: 'is required' },
+    ]);
+    expect(validateArguments(searchDatabase, undefined).errors).toEqual([
+      { field: 'table', message: 'is required' },
+      { field: 'searchTerm', message: 'is required' },
+    ]);
+  });
+
+  it('should enforce enums', () => {
+    expect(validateArguments(searchDatabase, { table: 'Trash', searchTerm: 'x' }).errors).toEqual([
+      { field: 'table', message: 'must be one of Wrestler, Brand, Company, Production, Championship, Venue, Show (got "Trash")' },
+    ]);
+  });
+
+  it('should check types all the way down and report every violation', () => {
+    const { errors } = validateArguments(updateProduction, {
+      id: '1',
+      updates: { name: 42, brandIds: [1, 'two'] },
+    });
+
+    expect(errors).toEqual([
+      { field: 'id', message: 'must be a number (got "1")' },
+      { field: 'updates.name', message: 'must be a string (got 42)' },
+      { field: 'updates.brandIds[1]', message: 'must be a number (got "two")' },
+    ]);
+  });
+
+  it('should check date-time formats', () => {
+    expect(validateArguments(createProduction, { name: 'Raw', date: '2024-04-07T20:00:00Z' }).errors).toEqual([]);
+    expect(validateArguments(createProduction, { name: 'Raw', date: '2024-04-07T20:00:00.000+02:00' }).errors).toEqual([]);
+    expect(validateArguments(createProduction, { name: 'Raw', date: 'next monday' }).errors).toEqual([
+      { field: 'date', message: 'must be a date-time such as 2024-04-07T20:00:00Z (got "next monday")' },
+    ]);
+    expect(validateArguments(createProduction, { name: 'Raw', date: '2024-13-40T20:00:00Z' }).errors).toHaveLength(1);
+  });
+
+  it('should check minimum and maximum', () => {
+    expect(validateArguments(updateWrestler, { id: 1, updates: { points: 120, morale: -5 } }).errors).toEqual([
+      { field: 'updates.points', message: 'must be at most 100 (got 120)' },
+      { field: 'updates.morale', message: 'must be at least 0 (got -5)' },
+    ]);
+  });
+
+  it('should accept any of several types and leave the input untouched', () => {
+    const schema = { type: 'object', properties: { backup: { type: ['object', 'string'] }, dryRun: { type: 'boolean', default: false } } };
+    const input = { backup: '{}' };
+
+    expect(validateArguments(schema, input)).toEqual({ args: { backup: '{}', dryRun: false }, errors: [] });
+    expect(input).toEqual({ backup: '{}' });
+    expect(validateArguments(schema, { backup: 1 }).errors).toEqual([
+      { field: 'backup', message: 'must be an object or a string (got 1)' },
+    ]);
+  });
+});